@@ -1,27 +1,67 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { Camera, Scan, Settings, Download, Sparkles } from 'lucide-react';
 import ImageUpload from '@/components/ImageUpload';
+import CameraCalibration from '@/components/CameraCalibration';
 import ContourDetector from '@/components/ContourDetector';
 import ScaleCalibration from '@/components/ScaleCalibration';
 import JigPreview from '@/components/JigPreview';
 import ThreeDPreview from '@/components/ThreeDPreview';
 import ExportPanel from '@/components/ExportPanel';
-import type { Contour, A4Paper, ScaleCalibration as ScaleCalibrationType, JigConfig } from '@/lib/types';
+import type { Contour, A4Paper, ScaleCalibration as ScaleCalibrationType, JigConfig, MachineProfile, MachineSettings } from '@/lib/types';
+import { getBounds, offsetContours, fitJigConfig } from '@/lib/jig-utils';
+import { getActiveProfile, profileSettings, PROFILE_DEFAULTS, PROFILE_CHANGED_EVENT } from '@/lib/profiles';
 
 type Step = 1 | 2 | 3 | 4;
 
 export default function Home() {
   const [currentStep, setCurrentStep] = useState<Step>(1);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [contour, setContour] = useState<Contour | null>(null);
+  const [detected, setDetected] = useState<{ contours: Contour[]; pixelsPerMm: number }>({ contours: [], pixelsPerMm: 1 });
   const [a4Paper, setA4Paper] = useState<A4Paper | null>(null);
   const [scaleCalibration, setScaleCalibration] = useState<ScaleCalibrationType | null>(null);
   const [jigConfig, setJigConfig] = useState<JigConfig | null>(null);
-  const [contourBounds, setContourBounds] = useState<{ width: number; height: number } | null>(null);
+  const [machine, setMachine] = useState<MachineSettings>(PROFILE_DEFAULTS);
   const [previewTab, setPreviewTab] = useState<'2d' | '3d'>('2d');
 
+  // Every step reads the machine settings from here; picking a profile replaces
+  // them all, and "No profile" goes back to the defaults
+  useEffect(() => {
+    const apply = (p: MachineProfile | null) => {
+      setMachine(p ? profileSettings(p) : PROFILE_DEFAULTS);
+    };
+    apply(getActiveProfile());
+    const handler = (e: CustomEvent) => apply(e.detail);
+    window.addEventListener(PROFILE_CHANGED_EVENT, handler as EventListener);
+    return () => window.removeEventListener(PROFILE_CHANGED_EVENT, handler as EventListener);
+  }, []);
+
+  const handleMachineChange = useCallback((changes: Partial<MachineSettings>) => {
+    setMachine(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  // Detected outlines grown by the clearance, at the calibrated scale once there is one
+  const contours = useMemo(
+    () => offsetContours(detected.contours, machine.clearanceMm * (scaleCalibration?.pixelsPerMm ?? detected.pixelsPerMm)),
+    [detected, machine.clearanceMm, scaleCalibration]
+  );
+
+  // Combined bounds of all selected objects
+  const contourBounds = useMemo(() => {
+    if (contours.length === 0) return null;
+    const { minX, minY, maxX, maxY } = getBounds(contours.map(c => c.points));
+    return { width: maxX - minX, height: maxY - minY };
+  }, [contours]);
+
+  // The Configure step's choices, refitted to the current outlines and machine
+  const config = useMemo(
+    () => jigConfig && scaleCalibration && contours.length > 0
+      ? fitJigConfig(jigConfig, contours, scaleCalibration.pixelsPerMm, machine)
+      : null,
+    [jigConfig, scaleCalibration, contours, machine]
+  );
+
   const handleImageUpload = useCallback((url: string) => {
     setImageUrl(url);
     setCurrentStep(2);
@@ -32,35 +72,21 @@ export default function Home() {
       URL.revokeObjectURL(imageUrl);
     }
     setImageUrl(null);
-    setContour(null);
+    setDetected({ contours: [], pixelsPerMm: 1 });
     setA4Paper(null);
     setCurrentStep(1);
   }, [imageUrl]);
 
-  const handleContourDetected = useCallback((detectedContour: Contour, imgElement: HTMLImageElement) => {
-    setContour(detectedContour);
-    
-    // Calculate bounds
-    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-    detectedContour.points.forEach(p => {
-      minX = Math.min(minX, p.x);
-      minY = Math.min(minY, p.y);
-      maxX = Math.max(maxX, p.x);
-      maxY = Math.max(maxY, p.y);
-    });
-    
-    setContourBounds({
-      width: maxX - minX,
-      height: maxY - minY
-    });
+  const handleContoursDetected = useCallback((detectedContours: Contour[], imgElement: HTMLImageElement, pixelsPerMm: number) => {
+    setDetected({ contours: detectedContours, pixelsPerMm });
   }, []);
 
   const handleA4Detected = useCallback((paper: A4Paper | null) => {
     setA4Paper(paper);
   }, []);
 
-  const canProceedToStep3 = contour !== null && contourBounds !== null;
-  const canProceedToStep4 = scaleCalibration !== null && jigConfig !== null;
+  const canProceedToStep3 = contours.length > 0 && contourBounds !== null;
+  const canProceedToStep4 = scaleCalibration !== null && config !== null;
 
   const steps = [
     { num: 1, icon: Camera, label: 'Upload' },
@@ -159,6 +185,9 @@ export default function Home() {
                   <li>• Take photo from directly above</li>
                 </ul>
               </div>
+              <div className="max-w-md mx-auto">
+                <CameraCalibration />
+              </div>
             </div>
           )}
 
@@ -172,8 +201,10 @@ export default function Home() {
               </div>
               <ContourDetector
                 imageUrl={imageUrl}
-                onContourDetected={handleContourDetected}
+                onContoursDetected={handleContoursDetected}
                 onA4Detected={handleA4Detected}
+                machine={machine}
+                onMachineChange={handleMachineChange}
               />
               {canProceedToStep3 && (
                 <button
@@ -186,7 +217,7 @@ export default function Home() {
             </div>
           )}
 
-          {currentStep === 3 && contour && contourBounds && (
+          {currentStep === 3 && contours.length > 0 && contourBounds && (
             <div className="space-y-6">
               <div className="text-center mb-8">
                 <h2 className="text-2xl font-semibold text-white mb-2">Scale & Configure</h2>
@@ -196,9 +227,12 @@ export default function Home() {
               </div>
               <ScaleCalibration
                 a4Paper={a4Paper}
+                contours={contours}
                 contourBounds={contourBounds}
                 onCalibrationChange={setScaleCalibration}
                 onConfigChange={setJigConfig}
+                machine={machine}
+                onMachineChange={handleMachineChange}
               />
               {canProceedToStep4 && (
                 <button
@@ -211,7 +245,7 @@ export default function Home() {
             </div>
           )}
 
-          {currentStep === 4 && contour && contourBounds && scaleCalibration && jigConfig && (
+          {currentStep === 4 && contours.length > 0 && contourBounds && scaleCalibration && config && (
             <div className="space-y-6">
               <div className="text-center mb-8">
                 <h2 className="text-2xl font-semibold text-white mb-2">Preview & Export</h2>
@@ -253,26 +287,29 @@ export default function Home() {
                 <div>
                   {previewTab === '2d' ? (
                     <JigPreview
-                      contour={contour}
+                      contours={contours}
                       pixelsPerMm={scaleCalibration.pixelsPerMm}
-                      config={jigConfig}
+                      config={config}
                       contourBounds={contourBounds}
                     />
                   ) : (
                     <ThreeDPreview
-                      contour={contour}
+                      contours={contours}
                       pixelsPerMm={scaleCalibration.pixelsPerMm}
-                      config={jigConfig}
+                      config={config}
                       contourBounds={contourBounds}
                     />
                   )}
                 </div>
                 <div>
                   <ExportPanel
-                    contour={contour}
+                    contours={contours}
                     pixelsPerMm={scaleCalibration.pixelsPerMm}
-                    config={jigConfig}
+                    config={config}
                     contourBounds={contourBounds}
+                    calibrationMethod={scaleCalibration.method}
+                    machine={machine}
+                    onMachineChange={handleMachineChange}
                   />
                 </div>
               </div>
@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ChevronDown, ChevronUp, Download, Grid3x3, Loader2, Trash2 } from 'lucide-react';
+import type { CameraProfile } from '@/lib/types';
+import {
+  loadCameras,
+  getActiveCamera,
+  setActiveCamera,
+  saveCamera,
+  deleteCamera,
+  CAMERA_CHANGED_EVENT,
+} from '@/lib/camera-profiles';
+import { createProfileId } from '@/lib/profiles';
+import { fitLens, findCheckerboard, checkerboardSvg, type CalibrationPhoto, type LensFit } from '@/lib/lens';
+import { CV_STAGE_LABELS, isAbortError } from '@/lib/opencv-client';
+
+const MAX_CALIBRATION_PHOTOS = 10;
+
+export default function CameraCalibration() {
+  const [cameras, setCameras] = useState<CameraProfile[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [fit, setFit] = useState<LensFit | null>(null);
+  const [missed, setMissed] = useState<string[]>([]); // photos with no checkerboard rows
+  const [newName, setNewName] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Read storage after mount (it isn't available while prerendering)
+  useEffect(() => {
+    const refresh = () => {
+      setCameras(loadCameras());
+      setActiveId(getActiveCamera()?.id ?? '');
+    };
+    refresh();
+    window.addEventListener(CAMERA_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(CAMERA_CHANGED_EVENT, refresh);
+  }, []);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const boardUrl = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(checkerboardSvg())}`, []);
+  const active = cameras.find(c => c.id === activeId) ?? null;
+
+  const handleCalibrate = async (files: File[]) => {
+    if (files.length === 0) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsProcessing(true);
+    setError(null);
+    setFit(null);
+    setMissed([]);
+    try {
+      const chosen = files.slice(0, MAX_CALIBRATION_PHOTOS);
+      const photos: CalibrationPhoto[] = [];
+      const empty: string[] = [];
+      for (const [i, file] of chosen.entries()) {
+        const label = `Photo ${i + 1}/${chosen.length}`;
+        setStatus(`${label}: loading...`);
+        const url = URL.createObjectURL(file);
+        try {
+          const img = new Image();
+          await new Promise<void>((resolve, reject) => {
+            img.onload = () => resolve();
+            img.onerror = () => reject(new Error(`Failed to load ${file.name}`));
+            img.src = url;
+          });
+          controller.signal.throwIfAborted();
+          const lines = await findCheckerboard(img, {
+            signal: controller.signal,
+            onProgress: stage => setStatus(`${label}: ${CV_STAGE_LABELS[stage]}`),
+          });
+          if (lines.length > 0) photos.push({ width: img.naturalWidth, height: img.naturalHeight, lines });
+          else empty.push(file.name);
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+      }
+      setMissed(empty);
+      if (photos.length === 0) {
+        setError('No checkerboard was found in the photos');
+        return;
+      }
+      setFit(fitLens(photos));
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Calibration failed');
+    } finally {
+      if (abortRef.current === controller) {
+        setIsProcessing(false);
+        setStatus('');
+      }
+    }
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!fit || !name) return;
+    saveCamera({ id: createProfileId(name), name, k1: fit.k1, k2: fit.k2, aspect: fit.aspect });
+    setFit(null);
+    setMissed([]);
+    setNewName('');
+  };
+
+  return (
+    <div className="bg-zinc-800/50 rounded-lg border border-zinc-700 overflow-hidden">
+      <button onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-3 hover:bg-zinc-800 transition-colors">
+        <h4 className="text-sm font-medium text-zinc-400">Lens Correction</h4>
+        <span className="flex items-center gap-2 text-xs text-zinc-500">
+          {active ? active.name : 'Off'}
+          {isOpen ? <ChevronUp className="w-4 h-4 text-zinc-400" /> : <ChevronDown className="w-4 h-4 text-zinc-400" />}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="p-3 pt-0 space-y-3 text-xs text-zinc-500">
+          <p>
+            Wide phone lenses bow straight edges by up to a millimetre near the corners. Calibrate your camera once
+            and every photo is straightened before the paper and object are detected.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={activeId}
+              onChange={(e) => setActiveCamera(e.target.value || null)}
+              className="flex-1 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm focus:outline-none focus:border-cyan-500"
+            >
+              <option value="">No lens correction</option>
+              {cameras.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            {active && (
+              <button
+                onClick={() => deleteCamera(active.id)}
+                title="Delete this camera"
+                className="p-2 bg-zinc-700 hover:bg-red-900 rounded-lg text-zinc-300"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {active && (
+            <p>
+              k1 {active.k1.toFixed(4)} · k2 {active.k2.toFixed(4)} · applies to {active.aspect.toFixed(2)}:1 photos
+            </p>
+          )}
+
+          <div className="space-y-2 pt-2 border-t border-zinc-700">
+            <p className="text-zinc-400">Calibrate a camera</p>
+            <ol className="space-y-1 list-decimal list-inside">
+              <li>Print the checkerboard at 100% and lay it flat.</li>
+              <li>Photograph it 4–{MAX_CALIBRATION_PHOTOS} times with the camera you scan with, from different angles,
+                with the board reaching into the corners of the frame.</li>
+              <li>Choose the photos here.</li>
+            </ol>
+            <div className="flex items-center gap-2 flex-wrap">
+              <a
+                href={boardUrl}
+                download="jigsnap-checkerboard.svg"
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg transition-colors text-zinc-300"
+              >
+                <Download className="w-3.5 h-3.5" />
+                Checkerboard
+              </a>
+              <label className={`inline-flex items-center gap-1.5 px-3 py-1.5 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg transition-colors cursor-pointer text-zinc-300 ${
+                isProcessing ? 'opacity-50 pointer-events-none' : ''
+              }`}>
+                <Grid3x3 className="w-3.5 h-3.5" />
+                Choose photos
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={(e) => {
+                    handleCalibrate(Array.from(e.target.files ?? []));
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                />
+              </label>
+            </div>
+
+            {isProcessing && (
+              <p className="flex items-center gap-2 text-zinc-400">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                {status}
+              </p>
+            )}
+            {error && <p className="text-red-400">{error}</p>}
+            {missed.length > 0 && <p className="text-amber-400">No checkerboard found in {missed.join(', ')}</p>}
+
+            {fit && (
+              <div className="space-y-2">
+                <p className="text-zinc-300">
+                  {fit.lines} rows and columns: bent by {fit.beforePx.toFixed(2)}px RMS, {fit.afterPx.toFixed(2)}px once corrected
+                </p>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={newName}
+                    autoFocus
+                    placeholder="e.g. Pixel 8 main camera"
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                    className="flex-1 px-3 py-1.5 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm focus:outline-none focus:border-cyan-500"
+                  />
+                  <button
+                    onClick={handleSave}
+                    disabled={!newName.trim()}
+                    className="px-3 py-1.5 text-sm bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 rounded-lg text-white"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
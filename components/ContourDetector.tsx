@@ -1,15 +1,26 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Loader2, RefreshCw, ChevronDown, ChevronUp, Plus, Eye, EyeOff, ZoomIn, ZoomOut, Maximize } from 'lucide-react';
-import { detectAllContours, simplifyContour, offsetContour, warpPerspective, getDefaultProcessingParams } from '@/lib/contour';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Loader2, RefreshCw, ChevronDown, ChevronUp, Plus, Minus, Eye, EyeOff, ZoomIn, ZoomOut, Maximize, CircleDot, AlertTriangle, Wrench, WandSparkles, Undo2, Sun, MousePointerClick, Paintbrush, Layers } from 'lucide-react';
+import { detectAllContours, refineContour, segmentFromClicks, paintOutline, previewLighting, simplifyContour, warpPerspective, getDefaultProcessingParams } from '@/lib/contour';
+import { offsetPolygon } from '@/lib/offset';
+import { smoothOutline, resampleOutline } from '@/lib/smoothing';
+import { validateContour, repairContour, describeContourIssues } from '@/lib/contour-validate';
 import { detectPaper } from '@/lib/paper-detect';
-import type { Contour, ContourCandidate, A4Paper, ProcessingParams, Point } from '@/lib/types';
+import { matchOutlineInPhoto, fuseOutlines, type FusedOutline } from '@/lib/fusion';
+import { CV_STAGE_LABELS, isAbortError, type CvStage } from '@/lib/opencv-client';
+import { getActiveCamera } from '@/lib/camera-profiles';
+import { lensMatches, undistortPhoto } from '@/lib/lens';
+import ProfileSelector from '@/components/ProfileSelector';
+import type { Contour, ContourCandidate, ContourIssue, A4Paper, ProcessingParams, Point, SmoothingOptions, SmoothingMethod, BrushStroke, FusionMode, MachineSettings } from '@/lib/types';
 
 interface ContourDetectorProps {
   imageUrl: string;
-  onContourDetected: (contour: Contour, imageElement: HTMLImageElement) => void;
+  // Outlines before clearance, with the detection's own scale estimate
+  onContoursDetected: (contours: Contour[], imageElement: HTMLImageElement, pixelsPerMm: number) => void;
   onA4Detected: (paper: A4Paper | null) => void;
+  machine: MachineSettings; // clearance is previewed here, applied by the page
+  onMachineChange: (changes: Partial<MachineSettings>) => void;
 }
 
 const HANDLE_RADIUS = 8;
@@ -18,26 +29,65 @@ const PAPER_HANDLE_RADIUS = 10;
 const PAPER_HIT_RADIUS = 24;
 const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 8;
+const REDETECT_DELAY_MS = 400; // wait for the detection sliders to settle
+const MAX_FUSION_PHOTOS = 5; // including the first
+const FUSION_HEAT_MM = 1; // disagreement shown fully red
 
-type Mode = 'select' | 'edit-contour';
+type Mode = 'select' | 'edit-contour' | 'notch' | 'segment' | 'brush';
+type ParamBlock = Exclude<keyof ProcessingParams, 'epsilon'>; // settings with an on/off switch
 
-export default function ContourDetector({ imageUrl, onContourDetected, onA4Detected }: ContourDetectorProps) {
+// Clicks for cutting an object out by hand (image coords)
+interface Seeds {
+  foreground: Point[];
+  background: Point[];
+}
+const NO_SEEDS: Seeds = { foreground: [], background: [] };
+
+const SMOOTHING_METHODS: { value: SmoothingMethod; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'chaikin', label: 'Chaikin' },
+  { value: 'gaussian', label: 'Gaussian' },
+  { value: 'savitzky-golay', label: 'Savitzky–Golay' },
+];
+
+export default function ContourDetector({ imageUrl, onContoursDetected, onA4Detected, machine, onMachineChange }: ContourDetectorProps) {
+  const { clearanceMm } = machine;
   const [isLoading, setIsLoading] = useState(true);
   const [loadingStep, setLoadingStep] = useState('Loading image...');
   const [isProcessing, setIsProcessing] = useState(false);
   const [contours, setContours] = useState<ContourCandidate[]>([]);
-  const [selectedIndex, setSelectedIndex] = useState(-1);
+  const [selectedIndex, setSelectedIndex] = useState(-1); // active (editable) object
+  const [selectedIndices, setSelectedIndices] = useState<number[]>([]); // all objects in the jig
   const [editablePoints, setEditablePoints] = useState<Point[]>([]);
+  const [outlineHistory, setOutlineHistory] = useState<{ index: number; points: Point[] }[]>([]); // outlines before each Refine or brush stroke
+  const editedPointsRef = useRef<Map<number, Point[]>>(new Map()); // edits of inactive selected objects
+  const [notchPoints, setNotchPoints] = useState<Record<number, Point[]>>({}); // clicked finger notches per object
   const [paperCorners, setPaperCorners] = useState<Point[]>([]);
   const [showPaper, setShowPaper] = useState(true);
   const [noPaper, setNoPaper] = useState(false);
   const [mode, setMode] = useState<Mode>('select');
+  const [seeds, setSeeds] = useState<Seeds>(NO_SEEDS);
+  const [seedKind, setSeedKind] = useState<'object' | 'background'>('object'); // what a plain click adds
+  const [segmentIndex, setSegmentIndex] = useState(-1); // candidate made from the current seeds
+  const [brushMm, setBrushMm] = useState(3); // brush radius
+  const [brushKind, setBrushKind] = useState<'add' | 'erase'>('add');
+  const [stroke, setStroke] = useState<BrushStroke | null>(null); // brush drag in progress
+  const [fusionMode, setFusionMode] = useState<FusionMode>('average');
+  // Registered outlines from each photo (the first is the reference) and their fusion
+  const [fusion, setFusion] = useState<{ index: number; outlines: Point[][]; result: FusedOutline } | null>(null);
   const [simplifyLevel, setSimplifyLevel] = useState(2);
-  const [offsetMm, setOffsetMm] = useState(0.5); // mm to expand contour
+  const [smoothing, setSmoothing] = useState<SmoothingOptions>({ method: 'none', iterations: 2, windowMm: 0.5, resampleMm: 0 });
   const [showParams, setShowParams] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [params] = useState<ProcessingParams>(getDefaultProcessingParams());
+  const [params, setParams] = useState<ProcessingParams>(getDefaultProcessingParams);
+  const paramsEditedRef = useRef(false);
+  // Worker jobs in flight: a new upload or warp cancels the first, a new detection or refine the second
+  const loadAbortRef = useRef<AbortController | null>(null);
+  const detectAbortRef = useRef<AbortController | null>(null);
+  const [showCorrected, setShowCorrected] = useState(false); // lighting-corrected view
+  const [correctedImage, setCorrectedImage] = useState<HTMLCanvasElement | null>(null);
   const [isWarped, setIsWarped] = useState(false);
+  const [lensCamera, setLensCamera] = useState<string | null>(null); // camera whose distortion was removed
   const [warpedImageUrl, setWarpedImageUrl] = useState<string | null>(null);
   const pixelsPerMmRef = useRef<number>(10); // will be set from calibration
 
@@ -53,6 +103,7 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
     window.addEventListener('calibration-updated', handler as EventListener);
     return () => window.removeEventListener('calibration-updated', handler as EventListener);
   }, []);
+
   const [panOffset, setPanOffset] = useState<Point>({ x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
   const panStartRef = useRef<Point>({ x: 0, y: 0 });
@@ -99,7 +150,7 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
     const centerY = (canvas.height - imgH * zoom) / 2 + panOffset.y;
     const imgX = (canvasX - centerX) / (baseScale * zoom);
     const imgY = (canvasY - centerY) / (baseScale * zoom);
-    return { x: Math.round(imgX), y: Math.round(imgY) };
+    return { x: imgX, y: imgY };
   }, [zoom, panOffset, getBaseScale]);
 
   // Convert image coords to canvas coords
@@ -111,43 +162,60 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
     };
   }, [zoom, panOffset, getBaseScale]);
 
-  // OpenCV progress
-  useEffect(() => {
-    const handler = (e: CustomEvent) => {
-      if (e.detail === 'downloading') setLoadingStep('Downloading OpenCV (~11MB)...');
-      else if (e.detail === 'initializing') setLoadingStep('Initializing OpenCV engine...');
-      else if (e.detail === 'ready') setLoadingStep('Detecting contours...');
-    };
-    window.addEventListener('opencv-progress', handler as EventListener);
-    return () => window.removeEventListener('opencv-progress', handler as EventListener);
-  }, []);
-
   // Initial load
   useEffect(() => {
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    const { signal } = controller;
+    const job = { signal, onProgress: (stage: CvStage) => setLoadingStep(CV_STAGE_LABELS[stage]) };
+
     const loadAndDetect = async () => {
       setIsLoading(true);
       setError(null);
       setLoadingStep('Loading image...');
       setContours([]);
       setSelectedIndex(-1);
+      setSelectedIndices([]);
       setEditablePoints([]);
+      setOutlineHistory([]);
+      setNotchPoints({});
+      setSeeds(NO_SEEDS);
+      setSegmentIndex(-1);
+      setFusion(null);
+      setLensCamera(null);
+      editedPointsRef.current.clear();
 
       try {
-        const img = new Image();
-        if (imageUrl.startsWith('http')) img.crossOrigin = 'anonymous';
+        const photo = new Image();
+        if (imageUrl.startsWith('http')) photo.crossOrigin = 'anonymous';
         await new Promise<void>((resolve, reject) => {
-          img.onload = () => resolve();
-          img.onerror = () => reject(new Error('Failed to load image'));
-          img.src = imageUrl;
+          photo.onload = () => resolve();
+          photo.onerror = () => reject(new Error('Failed to load image'));
+          photo.src = imageUrl;
         });
+        signal.throwIfAborted();
+
+        // Straighten lens distortion first: the paper warp assumes a pinhole camera
+        const camera = getActiveCamera();
+        const lensFits = camera !== null && lensMatches(camera, photo.naturalWidth, photo.naturalHeight);
+        const img = lensFits ? await undistortPhoto(photo, camera, job) : photo;
+        signal.throwIfAborted();
+        if (lensFits) setLensCamera(camera.name);
         imageRef.current = img;
 
         setLoadingStep('Detecting paper...');
         let paper: A4Paper | null = null;
-        try { paper = await detectPaper(img, 'letter'); } catch {}
+        let paperRegion: Point[] | undefined; // undefined once warped: the whole image is paper
+        try {
+          paper = await detectPaper(img, 'letter', job);
+        } catch (e) {
+          if (isAbortError(e)) throw e;
+        }
 
         if (paper && paper.corners.length === 4) {
-          setPaperCorners(paper.corners.map(c => ({ ...c })));
+          paperRegion = paper.corners.map(c => ({ ...c }));
+          setPaperCorners(paperRegion);
           
           // Auto-warp when paper is detected
           setLoadingStep('Warping perspective...');
@@ -166,7 +234,7 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
             const pixelsPerMm = ((destW / paperWidthMm) + (destH / paperHeightMm)) / 2;
             pixelsPerMmRef.current = pixelsPerMm;
             
-            const warpedCanvas = await warpPerspective(img, paper.corners, destW, destH);
+            const warpedCanvas = await warpPerspective(img, paper.corners, destW, destH, job);
             const blob = await new Promise<Blob | null>((resolve) => warpedCanvas.toBlob(resolve, 'image/jpeg', 0.95));
             if (blob) {
               const url = URL.createObjectURL(blob);
@@ -180,7 +248,9 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
                 warpedImg.onerror = () => reject(new Error('Failed to load warped image'));
                 warpedImg.src = url;
               });
+              signal.throwIfAborted();
               imageRef.current = warpedImg;
+              paperRegion = undefined;
               setPaperCorners([
                 { x: 0, y: 0 },
                 { x: destW, y: 0 },
@@ -189,79 +259,398 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
               ]);
             }
           } catch (e) {
+            if (isAbortError(e)) throw e;
             console.warn('Auto-warp failed:', e);
           }
 
         } else {
           const w = img.naturalWidth, h = img.naturalHeight;
           const inX = Math.round(w * 0.1), inY = Math.round(h * 0.1);
-          setPaperCorners([
+          paperRegion = [
             { x: inX, y: inY }, { x: w - inX, y: inY },
             { x: w - inX, y: h - inY }, { x: inX, y: h - inY },
-          ]);
+          ];
+          setPaperCorners(paperRegion);
         }
         onA4Detected(paper);
 
         setLoadingStep('Detecting contours...');
-        await doDetectContours(imageRef.current || img);
+        await doDetectContours(imageRef.current || img, paperRegion);
       } catch (err) {
+        if (isAbortError(err)) return;
         setError(err instanceof Error ? err.message : String(err));
       } finally {
-        setIsLoading(false);
+        if (!signal.aborted) setIsLoading(false);
       }
     };
     loadAndDetect();
+    // A new upload (or leaving the step) cancels whatever is still running
+    return () => {
+      controller.abort();
+      detectAbortRef.current?.abort();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [imageUrl]);
 
-  const doDetectContours = async (img: HTMLImageElement) => {
+  // Detected trace → smoothing → RDP simplification → optional even resampling
+  const traceOutline = useCallback((raw: Point[]): Point[] => {
+    const ppm = pixelsPerMmRef.current;
+    const simplified = simplifyContour(smoothOutline(raw, smoothing, ppm), simplifyLevel * 1.5);
+    return smoothing.resampleMm > 0 ? resampleOutline(simplified, smoothing.resampleMm * ppm) : simplified;
+  }, [smoothing, simplifyLevel]);
+  const isSmoothed = smoothing.method !== 'none' || smoothing.resampleMm > 0;
+
+  // Detection is started from callbacks made on earlier renders, so it reads
+  // the current settings through refs
+  const paramsRef = useRef(params);
+  const paperRegionRef = useRef<Point[] | undefined>(undefined); // where colour segmentation looks
+  useEffect(() => { paperRegionRef.current = noPaper ? undefined : paperCorners; }, [paperCorners, noPaper]);
+  const traceOutlineRef = useRef(traceOutline);
+  useEffect(() => { traceOutlineRef.current = traceOutline; }, [traceOutline]);
+
+  const doDetectContours = async (img: HTMLImageElement, paperRegion: Point[] | undefined) => {
+    detectAbortRef.current?.abort();
+    const controller = new AbortController();
+    detectAbortRef.current = controller;
     setIsProcessing(true);
     setError(null);
     try {
-      const detected = await detectAllContours(img);
+      const detected = await detectAllContours(img, paramsRef.current, paperRegion, {
+        signal: controller.signal,
+        onProgress: stage => setLoadingStep(CV_STAGE_LABELS[stage]),
+      });
       setContours(detected);
+      setOutlineHistory([]);
+      setNotchPoints({});
+      setSeeds(NO_SEEDS);
+      setSegmentIndex(-1);
+      setFusion(null);
+      editedPointsRef.current.clear();
       const firstObj = detected.findIndex(c => !c.isPaper);
       if (firstObj !== -1) {
         setSelectedIndex(firstObj);
-        const simplified = simplifyContour(detected[firstObj].points, simplifyLevel * 1.5);
-        setEditablePoints(simplified.map(p => ({ ...p })));
-        onContourDetected({ points: simplified, area: detected[firstObj].area }, img);
+        setSelectedIndices([firstObj]);
+        setEditablePoints(traceOutlineRef.current(detected[firstObj].points));
+      } else {
+        setSelectedIndex(-1);
+        setSelectedIndices([]);
+        setEditablePoints([]);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Detection failed');
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Detection failed');
     } finally {
-      setIsProcessing(false);
+      if (detectAbortRef.current === controller) setIsProcessing(false);
     }
   };
 
-  // Re-simplify when slider changes
+  // Edited detection settings re-run detection once the sliders settle
+  useEffect(() => {
+    paramsRef.current = params;
+    const img = imageRef.current;
+    if (!paramsEditedRef.current || !img) return;
+    const timer = setTimeout(() => { setMode('select'); doDetectContours(img, paperRegionRef.current); }, REDETECT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [params]);
+
+  function editParams<K extends ParamBlock>(method: K, patch: Partial<ProcessingParams[K]>) {
+    paramsEditedRef.current = true;
+    setParams(prev => ({ ...prev, [method]: { ...prev[method], ...patch } }));
+  }
+
+  // Lighting-corrected view of the current image, fetched while it's shown
+  // (contours change whenever the image or detection does)
+  useEffect(() => {
+    const img = imageRef.current;
+    if (!showCorrected || !params.lighting.enabled || !img) return;
+    const controller = new AbortController();
+    previewLighting(img, params.lighting, { signal: controller.signal })
+      .then(setCorrectedImage)
+      .catch(err => { if (!isAbortError(err)) console.warn('Lighting preview failed:', err); });
+    return () => controller.abort();
+  }, [showCorrected, params.lighting, contours]);
+  const backdrop = showCorrected && params.lighting.enabled ? correctedImage : null;
+
+  // Re-trace when the simplify or smoothing settings change
   useEffect(() => {
     if (selectedIndex >= 0 && contours[selectedIndex]) {
-      const raw = contours[selectedIndex].points;
-      const simplified = simplifyContour(raw, simplifyLevel * 1.5);
-      setEditablePoints(simplified.map(p => ({ ...p })));
+      setEditablePoints(traceOutline(contours[selectedIndex].points));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [simplifyLevel]);
+  }, [traceOutline]);
+
+  // Points for a selected object: live edits for the active one, saved edits
+  // or a fresh simplification for the others
+  const pointsForIndex = useCallback((idx: number): Point[] => {
+    if (idx === selectedIndex) return editablePoints;
+    return editedPointsRef.current.get(idx) ?? traceOutline(contours[idx]?.points ?? []);
+  }, [selectedIndex, editablePoints, contours, traceOutline]);
+
+  // Self-intersections, duplicate vertices and zero-length edges per object in the jig
+  const contourIssues = useMemo(() => {
+    const selected = selectedIndices.includes(selectedIndex) ? selectedIndices : [selectedIndex];
+    const issues = new Map<number, ContourIssue[]>();
+    for (const idx of selected) {
+      const found = validateContour(pointsForIndex(idx));
+      if (found.length > 0) issues.set(idx, found);
+    }
+    return issues;
+  }, [selectedIndices, selectedIndex, pointsForIndex]);
 
-  // Apply offset and notify parent
+  // Notify parent of the selected outlines (it applies the clearance)
   useEffect(() => {
     if (editablePoints.length >= 3 && imageRef.current) {
-      // Convert mm offset to pixels
-      const offsetPx = offsetMm * pixelsPerMmRef.current;
-      const offsetPoints = offsetPx !== 0 ? offsetContour(editablePoints, offsetPx) : editablePoints;
+      const selected = selectedIndices.includes(selectedIndex) ? selectedIndices : [selectedIndex];
+
+      const result: Contour[] = selected
+        .map(idx => ({ points: pointsForIndex(idx), notches: notchPoints[idx] }))
+        .filter(({ points }) => points.length >= 3)
+        .map(({ points, notches }) => {
+          let area = 0;
+          for (let i = 0; i < points.length; i++) {
+            const j = (i + 1) % points.length;
+            area += points[i].x * points[j].y;
+            area -= points[j].x * points[i].y;
+          }
+          return { points, area: Math.abs(area) / 2, ...(notches?.length ? { notches } : {}) };
+        });
+      onContoursDetected(result, imageRef.current, pixelsPerMmRef.current);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editablePoints, selectedIndices, notchPoints, onContoursDetected]);
+
+  // Fix every object with outline problems
+  const handleRepair = useCallback(() => {
+    contourIssues.forEach((_, idx) => {
+      if (idx !== selectedIndex) editedPointsRef.current.set(idx, repairContour(pointsForIndex(idx)));
+    });
+    // Always set the active outline so the jig is re-emitted
+    setEditablePoints(prev => (contourIssues.has(selectedIndex) ? repairContour(prev) : [...prev]));
+  }, [contourIssues, selectedIndex, pointsForIndex]);
 
+  // GrabCut the active object, seeded by its current outline
+  const handleRefine = useCallback(async () => {
+    const img = imageRef.current;
+    if (!img || selectedIndex < 0 || editablePoints.length < 3) return;
+    detectAbortRef.current?.abort();
+    const controller = new AbortController();
+    detectAbortRef.current = controller;
+    const before = editablePoints;
+    setMode('select');
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const refined = await refineContour(img, before, paramsRef.current.epsilon, {
+        signal: controller.signal,
+        onProgress: stage => setLoadingStep(CV_STAGE_LABELS[stage]),
+      });
+      if (!refined) {
+        setError('Refine found nothing inside the outline');
+        return;
+      }
+      setOutlineHistory(prev => [...prev, { index: selectedIndex, points: before }]);
+      setEditablePoints(traceOutlineRef.current(refined));
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Refine failed');
+    } finally {
+      if (detectAbortRef.current === controller) setIsProcessing(false);
+    }
+  }, [selectedIndex, editablePoints]);
+
+  // Watershed from the clicked seeds; the result is added as a candidate (replaced
+  // on further clicks) and becomes the only object in the jig
+  const handleSegment = useCallback(async (next: Seeds) => {
+    const img = imageRef.current;
+    if (!img || next.foreground.length === 0) return;
+    detectAbortRef.current?.abort();
+    const controller = new AbortController();
+    detectAbortRef.current = controller;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const outline = await segmentFromClicks(img, next.foreground, next.background, paperRegionRef.current, paramsRef.current.epsilon, {
+        signal: controller.signal,
+        onProgress: stage => setLoadingStep(CV_STAGE_LABELS[stage]),
+      });
+      if (!outline) {
+        setError('Nothing could be cut out around those clicks');
+        return;
+      }
       let area = 0;
-      for (let i = 0; i < offsetPoints.length; i++) {
-        const j = (i + 1) % offsetPoints.length;
-        area += offsetPoints[i].x * offsetPoints[j].y;
-        area -= offsetPoints[j].x * offsetPoints[i].y;
+      for (let i = 0; i < outline.length; i++) {
+        const j = (i + 1) % outline.length;
+        area += outline[i].x * outline[j].y - outline[j].x * outline[i].y;
       }
-      area = Math.abs(area) / 2;
-      onContourDetected({ points: offsetPoints, area }, imageRef.current);
+      const candidate: ContourCandidate = {
+        points: outline,
+        area: Math.abs(area) / 2,
+        isPaper: false,
+        detectionMethod: 'watershed',
+        lightingCorrected: false,
+        confidence: 1, // picked out by hand
+      };
+      const idx = segmentIndex >= 0 ? segmentIndex : contours.length;
+      setContours(prev => {
+        const updated = [...prev];
+        updated[idx] = candidate;
+        return updated;
+      });
+      setSegmentIndex(idx);
+      editedPointsRef.current.clear();
+      setSelectedIndex(idx);
+      setSelectedIndices([idx]);
+      setEditablePoints(traceOutlineRef.current(outline));
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Segmentation failed');
+    } finally {
+      if (detectAbortRef.current === controller) setIsProcessing(false);
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [editablePoints, offsetMm, onContourDetected]);
+  }, [segmentIndex, contours.length]);
+
+  // Start a fresh set of clicks whenever click-to-select is switched on or off
+  const toggleSegmentMode = useCallback(() => {
+    setSeeds(NO_SEEDS);
+    setSegmentIndex(-1);
+    setSeedKind('object');
+    setMode(m => m === 'segment' ? 'select' : 'segment');
+  }, []);
+
+  // Paint a finished brush stroke into the active outline and trace it again
+  const handleBrushStroke = useCallback(async (done: BrushStroke) => {
+    const img = imageRef.current;
+    if (!img || selectedIndex < 0 || editablePoints.length < 3) return;
+    detectAbortRef.current?.abort();
+    const controller = new AbortController();
+    detectAbortRef.current = controller;
+    const before = editablePoints;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const painted = await paintOutline(img, before, done, paramsRef.current.epsilon, {
+        signal: controller.signal,
+        onProgress: stage => setLoadingStep(CV_STAGE_LABELS[stage]),
+      });
+      if (!painted) {
+        setError('That stroke erased the whole outline');
+        return;
+      }
+      setOutlineHistory(prev => [...prev, { index: selectedIndex, points: before }]);
+      setEditablePoints(painted);
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Brush failed');
+    } finally {
+      if (detectAbortRef.current === controller) setIsProcessing(false);
+    }
+  }, [selectedIndex, editablePoints]);
+
+  // Find the active object in more photos of the same sheet and fuse its outlines
+  const handleFusePhotos = useCallback(async (files: File[]) => {
+    const img = imageRef.current;
+    if (!img || !isWarped || selectedIndex < 0 || editablePoints.length < 3 || files.length === 0) return;
+    detectAbortRef.current?.abort();
+    const controller = new AbortController();
+    detectAbortRef.current = controller;
+    const reference = editablePoints;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const outlines = [reference];
+      const missed: string[] = [];
+      for (const [i, file] of files.slice(0, MAX_FUSION_PHOTOS - 1).entries()) {
+        setLoadingStep(`Photo ${i + 2}: loading...`);
+        const url = URL.createObjectURL(file);
+        try {
+          const photo = new Image();
+          await new Promise<void>((resolve, reject) => {
+            photo.onload = () => resolve();
+            photo.onerror = () => reject(new Error(`Failed to load ${file.name}`));
+            photo.src = url;
+          });
+          controller.signal.throwIfAborted();
+          const job = {
+            signal: controller.signal,
+            onProgress: (stage: CvStage) => setLoadingStep(`Photo ${i + 2}: ${CV_STAGE_LABELS[stage]}`),
+          };
+          const camera = getActiveCamera();
+          const corrected = camera && lensMatches(camera, photo.naturalWidth, photo.naturalHeight)
+            ? await undistortPhoto(photo, camera, job)
+            : photo;
+          // Warped to the same size as this photo's warp, so both are in paper coordinates
+          const outline = await matchOutlineInPhoto(corrected, img.naturalWidth, img.naturalHeight, reference, paramsRef.current, job);
+          if (outline) outlines.push(outline);
+          else missed.push(file.name);
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+      }
+      if (outlines.length < 2) {
+        setError('The object wasn\'t found on the paper in the other photos');
+        return;
+      }
+      const result = fuseOutlines(outlines, fusionMode);
+      setOutlineHistory(prev => [...prev, { index: selectedIndex, points: reference }]);
+      setEditablePoints(result.points);
+      setFusion({ index: selectedIndex, outlines, result });
+      if (missed.length > 0) setError(`No matching outline in ${missed.join(', ')}; fused the rest`);
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Fusion failed');
+    } finally {
+      if (detectAbortRef.current === controller) setIsProcessing(false);
+    }
+  }, [isWarped, selectedIndex, editablePoints, fusionMode]);
+
+  // Disagreement per point, while the active outline is still the fused one
+  const fusedSpread = fusion && fusion.index === selectedIndex && fusion.result.points === editablePoints
+    ? fusion.result.spread
+    : null;
+
+  // Switching mode re-fuses the outlines already found
+  const changeFusionMode = useCallback((next: FusionMode) => {
+    setFusionMode(next);
+    if (!fusion || !fusedSpread) return;
+    const result = fuseOutlines(fusion.outlines, next);
+    setEditablePoints(result.points);
+    setFusion({ ...fusion, result });
+  }, [fusion, fusedSpread]);
+
+  // Put back the outline from before the last Refine or brush stroke on the active object
+  const lastChange = outlineHistory[outlineHistory.length - 1];
+  const canUndoOutline = lastChange?.index === selectedIndex;
+  const handleUndoOutline = useCallback(() => {
+    if (!canUndoOutline) return;
+    setOutlineHistory(prev => prev.slice(0, -1));
+    setEditablePoints(lastChange.points);
+  }, [canUndoOutline, lastChange]);
+
+  // Make a candidate the only object in the jig
+  const selectSingle = useCallback((idx: number) => {
+    editedPointsRef.current.clear();
+    setSelectedIndex(idx);
+    setSelectedIndices([idx]);
+    setEditablePoints(traceOutline(contours[idx].points));
+  }, [contours, traceOutline]);
+
+  // Add a candidate to the jig (making it active), or remove it
+  const toggleInJig = useCallback((idx: number) => {
+    const activate = (next: number) => {
+      setSelectedIndex(next);
+      const pts = editedPointsRef.current.get(next) ?? traceOutline(contours[next].points);
+      editedPointsRef.current.delete(next);
+      setEditablePoints(pts.map(p => ({ ...p })));
+    };
+
+    if (!selectedIndices.includes(idx)) {
+      if (selectedIndex >= 0 && editablePoints.length >= 3) {
+        editedPointsRef.current.set(selectedIndex, editablePoints);
+      }
+      setSelectedIndices([...selectedIndices, idx]);
+      activate(idx);
+    } else if (selectedIndices.length > 1) {
+      const rest = selectedIndices.filter(i => i !== idx);
+      editedPointsRef.current.delete(idx);
+      setSelectedIndices(rest);
+      if (idx === selectedIndex) activate(rest[0]);
+    }
+  }, [contours, selectedIndices, selectedIndex, editablePoints, traceOutline]);
 
   // Notify parent when paper corners change
   useEffect(() => {
@@ -305,22 +694,30 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
     ctx.translate(centerX, centerY);
     ctx.scale(zoom, zoom);
 
-    ctx.drawImage(img, 0, 0, imgW, imgH);
+    ctx.drawImage(backdrop ?? img, 0, 0, imgW, imgH);
 
     // Helper: image coords to scaled-canvas coords
     const s = (p: Point) => ({ x: p.x * baseScale, y: p.y * baseScale });
 
-    // Draw non-selected contours faintly
+    // Draw non-selected contours faintly, other objects in the jig in cyan
     contours.forEach((c, idx) => {
       if (idx === selectedIndex || c.isPaper) return;
-      const pts = c.points.map(s);
+      const inJig = selectedIndices.includes(idx);
+      const pts = (inJig ? pointsForIndex(idx) : c.points).map(s);
       if (pts.length < 3) return;
       ctx.beginPath();
       ctx.moveTo(pts[0].x, pts[0].y);
       for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y);
       ctx.closePath();
-      ctx.strokeStyle = 'rgba(96, 165, 250, 0.4)';
-      ctx.lineWidth = 1.5 / zoom;
+      if (inJig) {
+        ctx.fillStyle = 'rgba(6, 182, 212, 0.1)';
+        ctx.fill();
+        ctx.strokeStyle = 'rgba(6, 182, 212, 0.7)';
+        ctx.lineWidth = 2 / zoom;
+      } else {
+        ctx.strokeStyle = 'rgba(96, 165, 250, 0.4)';
+        ctx.lineWidth = 1.5 / zoom;
+      }
       ctx.stroke();
     });
 
@@ -354,13 +751,15 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
       const pts = editablePoints.map(s);
       
       // Draw offset preview if offset is set
-      const offsetPx = offsetMm * pixelsPerMmRef.current * baseScale;
+      const offsetPx = clearanceMm * pixelsPerMmRef.current * baseScale;
       if (Math.abs(offsetPx) > 0.5) {
-        const offsetPts = offsetContour(pts.map(p => ({x: p.x / baseScale, y: p.y / baseScale})), offsetPx / baseScale).map(s);
         ctx.beginPath();
-        ctx.moveTo(offsetPts[0].x, offsetPts[0].y);
-        for (let i = 1; i < offsetPts.length; i++) ctx.lineTo(offsetPts[i].x, offsetPts[i].y);
-        ctx.closePath();
+        for (const piece of offsetPolygon(editablePoints, offsetPx / baseScale)) {
+          const offsetPts = piece.map(s);
+          ctx.moveTo(offsetPts[0].x, offsetPts[0].y);
+          for (let i = 1; i < offsetPts.length; i++) ctx.lineTo(offsetPts[i].x, offsetPts[i].y);
+          ctx.closePath();
+        }
         ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)'; // amber color for offset
         ctx.lineWidth = 2 / zoom;
         ctx.setLineDash([5 / zoom, 5 / zoom]);
@@ -368,6 +767,21 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
         ctx.setLineDash([]);
       }
       
+      // Raw detected trace underneath, to compare against the smoothed outline
+      const raw = contours[selectedIndex]?.points ?? [];
+      if (isSmoothed && raw.length >= 3) {
+        const rawPts = raw.map(s);
+        ctx.beginPath();
+        ctx.moveTo(rawPts[0].x, rawPts[0].y);
+        for (let i = 1; i < rawPts.length; i++) ctx.lineTo(rawPts[i].x, rawPts[i].y);
+        ctx.closePath();
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+        ctx.lineWidth = 1 / zoom;
+        ctx.setLineDash([3 / zoom, 3 / zoom]);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
       // Draw main contour
       ctx.beginPath();
       ctx.moveTo(pts[0].x, pts[0].y);
@@ -379,6 +793,21 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
       ctx.lineWidth = 3 / zoom;
       ctx.stroke();
 
+      // Where the fused photos disagree: green where they agree, red at FUSION_HEAT_MM apart
+      if (fusedSpread) {
+        const full = FUSION_HEAT_MM * pixelsPerMmRef.current;
+        for (let i = 0; i < pts.length; i++) {
+          const j = (i + 1) % pts.length;
+          const heat = Math.min(1, Math.max(fusedSpread[i], fusedSpread[j]) / full);
+          ctx.beginPath();
+          ctx.moveTo(pts[i].x, pts[i].y);
+          ctx.lineTo(pts[j].x, pts[j].y);
+          ctx.strokeStyle = `hsl(${Math.round(120 * (1 - heat))}, 90%, 50%)`;
+          ctx.lineWidth = 5 / zoom;
+          ctx.stroke();
+        }
+      }
+
       if (mode === 'edit-contour') {
         pts.forEach((p, i) => {
           ctx.beginPath();
@@ -392,8 +821,64 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
       }
     }
 
+    // Finger notch markers on every object in the jig
+    selectedIndices.forEach(idx => {
+      (notchPoints[idx] ?? []).map(s).forEach(p => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, HANDLE_RADIUS / zoom, 0, Math.PI * 2);
+        ctx.fillStyle = idx === selectedIndex ? 'rgba(251, 191, 36, 0.9)' : 'rgba(251, 191, 36, 0.5)';
+        ctx.fill();
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 1.5 / zoom;
+        ctx.stroke();
+      });
+    });
+
+    // Brush stroke being painted: cyan adds, red erases
+    if (stroke) {
+      const pts = stroke.points.map(s);
+      ctx.beginPath();
+      ctx.moveTo(pts[0].x, pts[0].y);
+      for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y);
+      if (pts.length === 1) ctx.lineTo(pts[0].x + 0.01, pts[0].y);
+      ctx.strokeStyle = stroke.erase ? 'rgba(239, 68, 68, 0.5)' : 'rgba(6, 182, 212, 0.5)';
+      ctx.lineWidth = stroke.radius * 2 * baseScale;
+      ctx.lineCap = ctx.lineJoin = 'round';
+      ctx.stroke();
+    }
+
+    // Clicked seeds: green for the object, red for background
+    if (mode === 'segment') {
+      const marks = [
+        ...seeds.foreground.map(p => ({ p, color: 'rgba(34, 197, 94, 0.9)' })),
+        ...seeds.background.map(p => ({ p, color: 'rgba(239, 68, 68, 0.9)' })),
+      ];
+      marks.forEach(({ p, color }) => {
+        const c = s(p);
+        ctx.beginPath();
+        ctx.arc(c.x, c.y, HANDLE_RADIUS / zoom, 0, Math.PI * 2);
+        ctx.fillStyle = color;
+        ctx.fill();
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 1.5 / zoom;
+        ctx.stroke();
+      });
+    }
+
+    // Outline problems that block export
+    contourIssues.forEach(issues => {
+      issues.forEach(issue => {
+        const p = s(issue.at);
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, (HANDLE_RADIUS + 4) / zoom, 0, Math.PI * 2);
+        ctx.strokeStyle = '#ef4444';
+        ctx.lineWidth = 2.5 / zoom;
+        ctx.stroke();
+      });
+    });
+
     ctx.restore();
-  }, [contours, selectedIndex, editablePoints, paperCorners, showPaper, noPaper, mode, draggingIdx, dragTarget, getBaseScale, zoom, panOffset, offsetMm]);
+  }, [contours, selectedIndex, selectedIndices, pointsForIndex, editablePoints, notchPoints, contourIssues, paperCorners, showPaper, noPaper, mode, seeds, stroke, draggingIdx, dragTarget, getBaseScale, zoom, panOffset, clearanceMm, isSmoothed, backdrop, fusedSpread]);
 
   useEffect(() => { draw(); }, [draw]);
 
@@ -498,7 +983,7 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
       if (dist < bestDist) {
         bestDist = dist;
         bestIdx = j;
-        bestPoint = { x: Math.round(px), y: Math.round(py) };
+        bestPoint = { x: px, y: py };
       }
     }
     return bestIdx === -1 ? null : { index: bestIdx, point: bestPoint };
@@ -534,14 +1019,52 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
       }
     }
 
-    // Check contour selection
+    // Brush mode: start a stroke on the active object (shift swaps add and erase)
+    if (mode === 'brush' && selectedIndex >= 0 && editablePoints.length >= 3) {
+      setStroke({
+        points: [imgPt],
+        radius: brushMm * pixelsPerMmRef.current,
+        erase: e.shiftKey !== (brushKind === 'erase'),
+      });
+      return;
+    }
+
+    // Segment mode: every click is a seed (shift swaps object and background)
+    if (mode === 'segment') {
+      const background = e.shiftKey !== (seedKind === 'background');
+      const next = background
+        ? { ...seeds, background: [...seeds.background, imgPt] }
+        : { ...seeds, foreground: [...seeds.foreground, imgPt] };
+      setSeeds(next);
+      handleSegment(next);
+      return;
+    }
+
+    // Notch mode: click a marker to remove it, or the active outline to add one
+    if (mode === 'notch' && selectedIndex >= 0) {
+      const current = notchPoints[selectedIndex] ?? [];
+      const hitR = HIT_RADIUS / (getBaseScale() * zoom);
+      const hit = current.findIndex(p => Math.hypot(p.x - imgPt.x, p.y - imgPt.y) <= hitR);
+      if (hit !== -1) {
+        setNotchPoints(prev => ({ ...prev, [selectedIndex]: current.filter((_, i) => i !== hit) }));
+        return;
+      }
+      const edge = findClosestEdge(imgPt);
+      if (edge) {
+        setNotchPoints(prev => ({ ...prev, [selectedIndex]: [...current, edge.point] }));
+        return;
+      }
+    }
+
+    // Check contour selection (shift adds/removes objects in the jig)
     const idx = findContourAtPoint(imgPt);
+    if (idx !== -1 && e.shiftKey) {
+      toggleInJig(idx);
+      return;
+    }
     if (idx !== -1 && idx !== selectedIndex) {
-      setSelectedIndex(idx);
-      const simplified = simplifyContour(contours[idx].points, simplifyLevel * 1.5);
-      setEditablePoints(simplified.map(p => ({ ...p })));
-      if (imageRef.current)
-        onContourDetected({ points: simplified, area: contours[idx].area }, imageRef.current);
+      if (selectedIndices.includes(idx)) toggleInJig(idx); // already in the jig: just make it active
+      else selectSingle(idx);
       return;
     }
 
@@ -549,7 +1072,7 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
     setIsPanning(true);
     panStartRef.current = { x: clientX, y: clientY };
     panOffsetStartRef.current = { ...panOffset };
-  }, [screenToImage, findHandle, findClosestEdge, findContourAtPoint, mode, selectedIndex, contours, editablePoints, simplifyLevel, panOffset, onContourDetected]);
+  }, [screenToImage, findHandle, findClosestEdge, findContourAtPoint, mode, seeds, seedKind, handleSegment, brushMm, brushKind, selectedIndex, selectedIndices, editablePoints, notchPoints, getBaseScale, zoom, panOffset, selectSingle, toggleInJig]);
 
   const handlePointerMove = useCallback((e: React.MouseEvent | React.TouchEvent) => {
     // Pinch zoom
@@ -569,6 +1092,13 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
 
     const { clientX, clientY } = getClientPos(e);
 
+    if (stroke) {
+      e.preventDefault();
+      const imgPt = screenToImage(clientX, clientY);
+      setStroke(prev => prev && { ...prev, points: [...prev.points, imgPt] });
+      return;
+    }
+
     // Handle dragging
     if (draggingIdx !== null && dragTarget) {
       e.preventDefault();
@@ -599,14 +1129,18 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
         y: panOffsetStartRef.current.y + (clientY - panStartRef.current.y),
       });
     }
-  }, [draggingIdx, dragTarget, isPanning, screenToImage, draw, zoom, zoomAt]);
+  }, [stroke, draggingIdx, dragTarget, isPanning, screenToImage, draw, zoom, zoomAt]);
 
   const handlePointerUp = useCallback(() => {
+    if (stroke) {
+      setStroke(null);
+      handleBrushStroke(stroke);
+    }
     setDraggingIdx(null);
     setDragTarget(null);
     setIsPanning(false);
     lastPinchDistRef.current = 0;
-  }, []);
+  }, [stroke, handleBrushStroke]);
 
   const handleDoubleClick = useCallback((e: React.MouseEvent) => {
     if (mode !== 'edit-contour') return;
@@ -620,15 +1154,18 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
   const handleRedetect = useCallback(async () => {
     if (imageRef.current) {
       setSelectedIndex(-1);
+      setSelectedIndices([]);
       setEditablePoints([]);
       setMode('select');
-      await doDetectContours(imageRef.current);
+      await doDetectContours(imageRef.current, paperRegionRef.current);
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   const handleWarp = useCallback(async () => {
     if (!imageRef.current || paperCorners.length !== 4) return;
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
     setIsProcessing(true);
     try {
       // Calculate output size based on paper dimensions
@@ -643,7 +1180,10 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
       const destW = Math.round(width * scale);
       const destH = Math.round(height * scale);
 
-      const warpedCanvas = await warpPerspective(imageRef.current, paperCorners, destW, destH);
+      const warpedCanvas = await warpPerspective(imageRef.current, paperCorners, destW, destH, {
+        signal: controller.signal,
+        onProgress: stage => setLoadingStep(CV_STAGE_LABELS[stage]),
+      });
 
       // Convert to blob URL
       const blob = await new Promise<Blob | null>((resolve) => warpedCanvas.toBlob(resolve, 'image/jpeg', 0.95));
@@ -660,6 +1200,7 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
           img.onerror = () => reject(new Error('Failed to load warped image'));
           img.src = url;
         });
+        controller.signal.throwIfAborted();
         imageRef.current = img;
 
         // Reset paper corners to full image
@@ -672,20 +1213,56 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
 
         // Detect on warped image
         setSelectedIndex(-1);
+        setSelectedIndices([]);
         setEditablePoints([]);
-        await doDetectContours(img);
+        await doDetectContours(img, undefined); // the warped image is all paper
       }
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Warp failed:', err);
       setError(err instanceof Error ? err.message : 'Warp failed');
     } finally {
-      setIsProcessing(false);
+      if (!controller.signal.aborted) setIsProcessing(false);
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [paperCorners, warpedImageUrl]);
 
   const objectCount = contours.filter(c => !c.isPaper).length;
 
+  // Detection parameter controls
+  const methodToggle = (method: ParamBlock, label: string) => (
+    <label className="flex items-center gap-2 text-sm text-zinc-300">
+      <input
+        type="checkbox"
+        checked={params[method].enabled}
+        onChange={(e) => editParams(method, { enabled: e.target.checked })}
+        className="accent-cyan-500"
+      />
+      {label}
+    </label>
+  );
+
+  const paramSlider = (
+    label: string,
+    display: React.ReactNode,
+    value: number,
+    min: number,
+    max: number,
+    step: number,
+    onChange: (v: number) => void
+  ) => (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span>{label}</span>
+        <span className="text-zinc-400">{display}</span>
+      </div>
+      <input
+        type="range" min={min} max={max} step={step} value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full accent-cyan-500"
+      />
+    </div>
+  );
+
   return (
     <div className="flex flex-col gap-4">
       {/* Paper status */}
@@ -760,6 +1337,23 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
           {isWarped && (
             <span className="text-xs text-amber-400 bg-amber-900/30 px-2 py-1 rounded">Warped</span>
           )}
+          {lensCamera && (
+            <span className="text-xs text-amber-400 bg-amber-900/30 px-2 py-1 rounded" title={`Distortion of ${lensCamera} removed`}>
+              Lens corrected
+            </span>
+          )}
+          {params.lighting.enabled && (
+            <button
+              onClick={() => setShowCorrected(v => !v)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                showCorrected ? 'bg-cyan-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+              }`}
+              title="Switch between the photo and the lighting-corrected image detection works on"
+            >
+              <Sun className="w-3.5 h-3.5" />
+              {showCorrected ? 'After' : 'Before'}
+            </button>
+          )}
           <button
             onClick={() => setMode(m => m === 'edit-contour' ? 'select' : 'edit-contour')}
             className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
@@ -769,6 +1363,57 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
             <Plus className="w-3.5 h-3.5" />
             Edit
           </button>
+          <button
+            onClick={() => setMode(m => m === 'notch' ? 'select' : 'notch')}
+            className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+              mode === 'notch' ? 'bg-amber-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+            }`}
+            title="Place finger notches on the outline"
+          >
+            <CircleDot className="w-3.5 h-3.5" />
+            Notch
+          </button>
+          <button
+            onClick={toggleSegmentMode}
+            className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+              mode === 'segment' ? 'bg-cyan-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+            }`}
+            title="Cut an object out by clicking inside it, e.g. when no candidate fits"
+          >
+            <MousePointerClick className="w-3.5 h-3.5" />
+            Click
+          </button>
+          <button
+            onClick={() => setMode(m => m === 'brush' ? 'select' : 'brush')}
+            disabled={selectedIndex < 0}
+            className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-50 ${
+              mode === 'brush' ? 'bg-cyan-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+            }`}
+            title="Paint the selected object's mask: add a missed part or erase a shadow"
+          >
+            <Paintbrush className="w-3.5 h-3.5" />
+            Brush
+          </button>
+          <button
+            onClick={handleRefine}
+            disabled={isProcessing || selectedIndex < 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 rounded-lg transition-colors"
+            title="Re-cut the selected object with GrabCut, e.g. to drop a shadow"
+          >
+            <WandSparkles className="w-3.5 h-3.5" />
+            Refine
+          </button>
+          {canUndoOutline && (
+            <button
+              onClick={handleUndoOutline}
+              disabled={isProcessing}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 rounded-lg transition-colors"
+              title="Restore the outline from before the last Refine or brush stroke"
+            >
+              <Undo2 className="w-3.5 h-3.5" />
+              Undo
+            </button>
+          )}
           <button
             onClick={handleRedetect}
             disabled={isProcessing}
@@ -806,6 +1451,23 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
         )}
       </div>
 
+      {/* Outline problems */}
+      {contourIssues.size > 0 && (
+        <div className="flex items-center gap-3 p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-400">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <p className="flex-1">
+            Outline has {describeContourIssues([...contourIssues.values()].flat())} (circled). Export is blocked until it&apos;s fixed.
+          </p>
+          <button
+            onClick={handleRepair}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-red-700 hover:bg-red-600 rounded-lg text-white shrink-0"
+          >
+            <Wrench className="w-3.5 h-3.5" />
+            Repair
+          </button>
+        </div>
+      )}
+
       {/* Edit mode instructions */}
       {mode === 'edit-contour' && (
         <div className="p-3 bg-cyan-900/20 border border-cyan-800 rounded-lg text-sm text-cyan-300 space-y-1">
@@ -815,6 +1477,79 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
         </div>
       )}
 
+      {/* Segment mode instructions */}
+      {mode === 'segment' && (
+        <div className="p-3 bg-cyan-900/20 border border-cyan-800 rounded-lg text-sm text-cyan-300 space-y-2">
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <p><strong>Click Mode:</strong> Click inside the object to cut it out</p>
+            <div className="flex gap-1">
+              {(['object', 'background'] as const).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setSeedKind(kind)}
+                  className={`px-2 py-1 text-xs rounded transition-colors ${
+                    seedKind === kind ? 'bg-cyan-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                  }`}
+                >
+                  {kind === 'object' ? 'Object' : 'Background'}
+                </button>
+              ))}
+              <button
+                onClick={() => { setSeeds(NO_SEEDS); setSegmentIndex(-1); }}
+                disabled={seeds.foreground.length + seeds.background.length === 0}
+                className="px-2 py-1 text-xs rounded bg-zinc-700 text-zinc-300 hover:bg-zinc-600 disabled:opacity-50"
+              >
+                Clear clicks
+              </button>
+            </div>
+          </div>
+          <p>• If it spills onto a pen mark or shadow, click that as <strong>background</strong> (or Shift-click)</p>
+          <p>• Clear clicks to start another object · Scroll wheel or pinch to <strong>zoom</strong></p>
+        </div>
+      )}
+
+      {/* Brush mode instructions */}
+      {mode === 'brush' && (
+        <div className="p-3 bg-cyan-900/20 border border-cyan-800 rounded-lg text-sm text-cyan-300 space-y-2">
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <p><strong>Brush Mode:</strong> Paint over the photo to reshape the selected object</p>
+            <div className="flex gap-1">
+              {(['add', 'erase'] as const).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setBrushKind(kind)}
+                  className={`px-2 py-1 text-xs rounded transition-colors ${
+                    brushKind === kind ? 'bg-cyan-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                  }`}
+                >
+                  {kind === 'add' ? 'Add' : 'Erase'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-3 text-xs">
+            <span>Brush size</span>
+            <input
+              type="range" min="0.5" max="20" step="0.5" value={brushMm}
+              onChange={(e) => setBrushMm(parseFloat(e.target.value))}
+              className="flex-1 accent-cyan-500"
+            />
+            <span className="w-12 text-right">{brushMm}mm</span>
+          </div>
+          <p>• Each stroke is traced into the outline; paint must touch the object to join it · Shift swaps add and erase</p>
+          <p>• Undo restores the outline from before the last stroke · Scroll wheel or pinch to <strong>zoom</strong></p>
+        </div>
+      )}
+
+      {/* Notch mode instructions */}
+      {mode === 'notch' && (
+        <div className="p-3 bg-amber-900/20 border border-amber-800 rounded-lg text-sm text-amber-300 space-y-1">
+          <p><strong>Notch Mode:</strong> Click on the outline to place a finger notch</p>
+          <p>• Click a marker to <strong>remove it</strong> · Objects without markers get notches on their longest straight edge</p>
+          <p>• Notch size is set in the next step</p>
+        </div>
+      )}
+
       {/* Simplify & Offset sliders */}
       {selectedIndex !== -1 && editablePoints.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -836,18 +1571,129 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
           <div className="p-3 bg-zinc-800/50 border border-zinc-700 rounded-lg">
             <div className="flex items-center justify-between mb-2">
               <span className="text-sm text-zinc-300">Offset</span>
-              <span className="text-xs text-zinc-500">{offsetMm > 0 ? '+' : ''}{offsetMm}mm</span>
+              <span className="text-xs text-zinc-500">{clearanceMm > 0 ? '+' : ''}{clearanceMm}mm</span>
             </div>
             <input
-              type="range" min="-2" max="5" step="0.1" value={offsetMm}
-              onChange={(e) => setOffsetMm(parseFloat(e.target.value))}
+              type="range" min="-2" max="5" step="0.1" value={clearanceMm}
+              onChange={(e) => onMachineChange({ clearanceMm: parseFloat(e.target.value) })}
               className="w-full accent-amber-500"
             />
             <div className="flex justify-between text-xs text-zinc-600 mt-1">
               <span>Tighter</span>
               <span>Looser</span>
             </div>
+            <div className="mt-3 pt-3 border-t border-zinc-700">
+              <ProfileSelector current={machine} />
+            </div>
+          </div>
+          <div className="p-3 bg-zinc-800/50 border border-zinc-700 rounded-lg md:col-span-2 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-zinc-300">Smoothing</span>
+              {isSmoothed && <span className="text-xs text-zinc-500">Dashed white line = raw trace</span>}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {SMOOTHING_METHODS.map(m => (
+                <button
+                  key={m.value}
+                  onClick={() => setSmoothing(prev => ({ ...prev, method: m.value }))}
+                  className={`px-3 py-1.5 text-xs rounded-lg transition-colors ${
+                    smoothing.method === m.value ? 'bg-cyan-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                  }`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            {smoothing.method === 'chaikin' && (
+              <div>
+                <div className="flex items-center justify-between text-xs text-zinc-500 mb-1">
+                  <span>Corner-cutting passes</span>
+                  <span>{smoothing.iterations}</span>
+                </div>
+                <input
+                  type="range" min="1" max="5" value={smoothing.iterations}
+                  onChange={(e) => setSmoothing(prev => ({ ...prev, iterations: parseInt(e.target.value) }))}
+                  className="w-full accent-cyan-500"
+                />
+              </div>
+            )}
+            {(smoothing.method === 'gaussian' || smoothing.method === 'savitzky-golay') && (
+              <div>
+                <div className="flex items-center justify-between text-xs text-zinc-500 mb-1">
+                  <span>{smoothing.method === 'gaussian' ? 'Blur along the outline' : 'Fitting window'}</span>
+                  <span>{smoothing.windowMm}mm</span>
+                </div>
+                <input
+                  type="range" min="0.1" max="5" step="0.1" value={smoothing.windowMm}
+                  onChange={(e) => setSmoothing(prev => ({ ...prev, windowMm: parseFloat(e.target.value) }))}
+                  className="w-full accent-cyan-500"
+                />
+                <p className="text-xs text-zinc-600 mt-1">
+                  {smoothing.method === 'gaussian'
+                    ? 'Evens out noise but rounds corners and pulls curves in slightly'
+                    : 'Fits a local curve, so bends keep their shape better'}
+                </p>
+              </div>
+            )}
+            <div>
+              <div className="flex items-center justify-between text-xs text-zinc-500 mb-1">
+                <span>Even point spacing</span>
+                <span>{smoothing.resampleMm > 0 ? `${smoothing.resampleMm}mm` : 'Off'}</span>
+              </div>
+              <input
+                type="range" min="0" max="5" step="0.25" value={smoothing.resampleMm}
+                onChange={(e) => setSmoothing(prev => ({ ...prev, resampleMm: parseFloat(e.target.value) }))}
+                className="w-full accent-cyan-500"
+              />
+            </div>
           </div>
+          {isWarped && (
+            <div className="p-3 bg-zinc-800/50 border border-zinc-700 rounded-lg md:col-span-2 space-y-3">
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <span className="text-sm text-zinc-300">Multi-photo fusion</span>
+                <div className="flex gap-1">
+                  {(['average', 'union'] as const).map(m => (
+                    <button
+                      key={m}
+                      onClick={() => changeFusionMode(m)}
+                      className={`px-3 py-1.5 text-xs rounded-lg transition-colors ${
+                        fusionMode === m ? 'bg-cyan-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                      }`}
+                    >
+                      {m === 'average' ? 'Average' : 'Union'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <p className="text-xs text-zinc-500">
+                Add 1–{MAX_FUSION_PHOTOS - 1} more photos of the object on the same paper, from other angles. Average evens
+                out each photo&apos;s error; Union keeps the outermost edge for guaranteed clearance.
+              </p>
+              <label className={`inline-flex items-center gap-1.5 px-3 py-1.5 text-sm bg-zinc-700 hover:bg-zinc-600 rounded-lg transition-colors cursor-pointer ${
+                isProcessing ? 'opacity-50 pointer-events-none' : ''
+              }`}>
+                <Layers className="w-3.5 h-3.5" />
+                Add photos
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={(e) => {
+                    handleFusePhotos(Array.from(e.target.files ?? []));
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                />
+              </label>
+              {fusedSpread && fusion && (
+                <p className="text-xs text-zinc-500">
+                  Fused {fusion.outlines.length} photos · photos disagree by up to{' '}
+                  {(Math.max(...fusedSpread) / pixelsPerMmRef.current).toFixed(2)}mm
+                  (outline colored <span className="text-green-400">green</span> to <span className="text-red-400">red</span> at {FUSION_HEAT_MM}mm)
+                </p>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -855,9 +1701,17 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
       {selectedIndex !== -1 && editablePoints.length > 0 && (
         <div className="p-3 bg-zinc-800/50 border border-zinc-700 rounded-lg">
           <div className="flex items-center justify-between text-sm">
-            <span className="text-cyan-400 font-medium">Object Selected — {editablePoints.length} points</span>
+            <span className="text-cyan-400 font-medium">
+              {selectedIndices.length > 1
+                ? `${selectedIndices.length} objects in jig — active: ${editablePoints.length} points`
+                : `Object Selected — ${editablePoints.length} points`}
+            </span>
             {contours[selectedIndex] && (
-              <span className="text-zinc-500">{contours[selectedIndex].detectionMethod}</span>
+              <span className="text-zinc-500">
+                {contours[selectedIndex].detectionMethod}
+                {` · ${Math.round(contours[selectedIndex].confidence * 100)}% confidence`}
+                {contours[selectedIndex].lightingCorrected && ' · lighting corrected'}
+              </span>
             )}
           </div>
         </div>
@@ -866,24 +1720,39 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
       {/* Contour list */}
       {contours.filter(c => !c.isPaper).length > 1 && (
         <div className="p-3 bg-zinc-800/30 border border-zinc-700 rounded-lg">
-          <p className="text-xs text-zinc-500 mb-2">Multiple objects — click to select:</p>
+          <p className="text-xs text-zinc-500 mb-2">
+            Multiple objects — click to select, shift-click or <Plus className="w-3 h-3 inline" /> to add more to the same jig:
+          </p>
           <div className="flex flex-wrap gap-2">
             {contours.map((c, i) => {
               if (c.isPaper) return null;
+              const inJig = selectedIndices.includes(i);
               return (
-                <button key={i}
-                  onClick={() => {
-                    setSelectedIndex(i);
-                    const simplified = simplifyContour(c.points, simplifyLevel * 1.5);
-                    setEditablePoints(simplified.map(p => ({ ...p })));
-                    setMode('select');
-                  }}
-                  className={`px-3 py-1.5 text-xs rounded-lg transition-colors ${
-                    i === selectedIndex ? 'bg-cyan-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
-                  }`}
-                >
-                  Object {contours.filter((cc, ii) => !cc.isPaper && ii <= i).length} ({c.points.length} pts)
-                </button>
+                <div key={i} className="flex">
+                  <button
+                    onClick={(e) => {
+                      if (e.shiftKey || (inJig && i !== selectedIndex)) toggleInJig(i);
+                      else selectSingle(i);
+                      setMode('select');
+                    }}
+                    title={`${c.detectionMethod}, ${c.points.length} pts`}
+                    className={`px-3 py-1.5 text-xs rounded-l-lg transition-colors ${
+                      i === selectedIndex ? 'bg-cyan-600 text-white'
+                        : inJig ? 'bg-cyan-900 text-cyan-200 hover:bg-cyan-800'
+                        : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                    }`}
+                  >
+                    Object {contours.filter((cc, ii) => !cc.isPaper && ii <= i).length} ({Math.round(c.confidence * 100)}%)
+                  </button>
+                  <button
+                    onClick={() => toggleInJig(i)}
+                    disabled={inJig && selectedIndices.length === 1}
+                    title={inJig ? 'Remove from jig' : 'Add to jig'}
+                    className="px-1.5 text-xs rounded-r-lg bg-zinc-800 text-zinc-400 hover:text-white disabled:opacity-40 border-l border-zinc-900"
+                  >
+                    {inJig ? <Minus className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+                  </button>
+                </div>
               );
             })}
           </div>
@@ -898,9 +1767,135 @@ export default function ContourDetector({ imageUrl, onContourDetected, onA4Detec
           {showParams ? <ChevronUp className="w-4 h-4 text-zinc-400" /> : <ChevronDown className="w-4 h-4 text-zinc-400" />}
         </button>
         {showParams && (
-          <div className="p-3 pt-0 text-xs text-zinc-500">
-            <p>Blur: {params.blurKernel}px | Canny: {params.cannyLow}/{params.cannyHigh} | ε: {params.epsilon}</p>
-            <p className="mt-1">Tip: Use Edit Trace + zoom to manually fix the contour.</p>
+          <div className="p-3 pt-0 space-y-4 text-xs text-zinc-500">
+            <p>Changes re-run detection on the current image. Each method adds its own candidates.</p>
+
+            <div className="space-y-2">
+              {methodToggle('lighting', 'Correct lighting first')}
+              {params.lighting.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {paramSlider('Background scale', `${Math.round(params.lighting.backgroundScale * 100)}% of image`,
+                    params.lighting.backgroundScale, 0.01, 0.2, 0.01, v => editParams('lighting', { backgroundScale: v }))}
+                  <label className="flex items-center gap-2 text-zinc-300 self-end pb-1">
+                    <input
+                      type="checkbox"
+                      checked={params.lighting.suppressShadows}
+                      onChange={(e) => editParams('lighting', { suppressShadows: e.target.checked })}
+                      className="accent-cyan-500"
+                    />
+                    Suppress shadows
+                  </label>
+                  {params.lighting.suppressShadows && paramSlider('Shadow level', `${Math.round(params.lighting.shadowLevel * 100)}%`,
+                    params.lighting.shadowLevel, 0.3, 0.95, 0.05, v => editParams('lighting', { shadowLevel: v }))}
+                </div>
+              )}
+              {params.lighting.enabled && (
+                <p>
+                  Divides out lamp gradients; shadow suppression whitens grey areas at least as bright as the shadow level,
+                  so it can also erase light-grey parts. Use Before/After on the toolbar to check.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {methodToggle('canny', 'Canny edges')}
+              {params.canny.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {paramSlider('Blur', `${params.canny.blurKernel}px`, params.canny.blurKernel, 1, 31, 2,
+                    v => editParams('canny', { blurKernel: v }))}
+                  {paramSlider('Low threshold', params.canny.low, params.canny.low, 0, 255, 5,
+                    v => editParams('canny', { low: v, high: Math.max(v, params.canny.high) }))}
+                  {paramSlider('High threshold', params.canny.high, params.canny.high, 0, 255, 5,
+                    v => editParams('canny', { high: v, low: Math.min(v, params.canny.low) }))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {methodToggle('adaptive', 'Adaptive threshold')}
+              {params.adaptive.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {paramSlider('Edge-preserving blur', `${params.adaptive.bilateralDiameter}px`, params.adaptive.bilateralDiameter, 1, 15, 1,
+                    v => editParams('adaptive', { bilateralDiameter: v }))}
+                  {paramSlider('Block size', `${params.adaptive.blockSize}px`, params.adaptive.blockSize, 3, 51, 2,
+                    v => editParams('adaptive', { blockSize: v }))}
+                  {paramSlider('Offset (C)', params.adaptive.c, params.adaptive.c, -10, 20, 1,
+                    v => editParams('adaptive', { c: v }))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {methodToggle('binary', 'Otsu threshold')}
+              {params.binary.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {paramSlider('Blur', `${params.binary.blurKernel}px`, params.binary.blurKernel, 1, 31, 2,
+                    v => editParams('binary', { blurKernel: v }))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {methodToggle('color', 'Color vs paper')}
+              {params.color.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <div className="mb-1">Color space</div>
+                    <div className="flex gap-1">
+                      {(['lab', 'hsv'] as const).map(space => (
+                        <button
+                          key={space}
+                          onClick={() => editParams('color', { space })}
+                          className={`flex-1 px-2 py-1 rounded transition-colors ${
+                            params.color.space === space ? 'bg-cyan-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                          }`}
+                        >
+                          {space === 'lab' ? 'Lab' : 'HSV'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {paramSlider('Difference from paper', params.color.space === 'lab' ? `ΔE ${params.color.threshold}` : params.color.threshold,
+                    params.color.threshold, 2, 60, 1, v => editParams('color', { threshold: v }))}
+                  {paramSlider('Blur', `${params.color.blurKernel}px`, params.color.blurKernel, 1, 31, 2,
+                    v => editParams('color', { blurKernel: v }))}
+                </div>
+              )}
+              {params.color.enabled && (
+                <p>The paper color is sampled inside the paper corners; only that area is searched.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {methodToggle('subpixel', 'Sub-pixel edge refinement')}
+              {params.subpixel.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {paramSlider('Search distance', `${params.subpixel.searchRadius}px`, params.subpixel.searchRadius, 0.5, 6, 0.5,
+                    v => editParams('subpixel', { searchRadius: v }))}
+                </div>
+              )}
+              {params.subpixel.enabled && (
+                <p>Moves each outline point to the sharpest edge nearby in the full-resolution photo.</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {paramSlider('Outline detail (ε)', `${(params.epsilon * 100).toFixed(2)}% of perimeter`, params.epsilon, 0.0005, 0.01, 0.0005,
+                v => { paramsEditedRef.current = true; setParams(prev => ({ ...prev, epsilon: v })); })}
+            </div>
+
+            {!params.canny.enabled && !params.adaptive.enabled && !params.binary.enabled && !params.color.enabled && (
+              <p className="text-amber-400">All methods are off, so nothing will be detected.</p>
+            )}
+            <div className="flex items-center justify-between">
+              <p>Tip: Use Edit Trace + zoom to manually fix the contour.</p>
+              <button
+                onClick={() => { paramsEditedRef.current = true; setParams(getDefaultProcessingParams()); }}
+                className="text-cyan-400 hover:text-cyan-300"
+              >
+                Reset to defaults
+              </button>
+            </div>
           </div>
         )}
       </div>
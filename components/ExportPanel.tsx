@@ -1,54 +1,220 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
-import { Download, FileImage, Box, Loader2 } from 'lucide-react';
-import type { Contour, JigConfig } from '@/lib/types';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import { Download, FileImage, FileCode, Box, Loader2, AlertTriangle, Check } from 'lucide-react';
+import type { Contour, JigConfig, ScaleCalibration, MachineSettings } from '@/lib/types';
 import { generateSVG, downloadSVG } from '@/lib/svg-export';
 import { generateSTL, downloadSTL } from '@/lib/stl-export';
+import { generateDXF, downloadDXF } from '@/lib/dxf-export';
+import { generate3MF, download3MF } from '@/lib/threemf-export';
+import { buildJigPlate, applyKerf, describeJigShape, crowdedSlotLabels } from '@/lib/jig-utils';
+import { validateContour, describeContourIssues } from '@/lib/contour-validate';
+import type { MeshReport } from '@/lib/mesh-check';
+import { checkJigMesh } from '@/lib/mesh-client';
+import { isAbortError } from '@/lib/opencv-client';
+import ProfileSelector from '@/components/ProfileSelector';
 
 interface ExportPanelProps {
-  contour: Contour;
+  contours: Contour[];
   pixelsPerMm: number;
   config: JigConfig;
   contourBounds: { width: number; height: number };
+  calibrationMethod: ScaleCalibration['method'];
+  machine: MachineSettings; // kerf and export format come from here
+  onMachineChange: (changes: Partial<MachineSettings>) => void;
 }
 
 export default function ExportPanel({ 
-  contour, 
+  contours, 
   pixelsPerMm, 
   config,
-  contourBounds 
+  contourBounds,
+  calibrationMethod,
+  machine,
+  onMachineChange
 }: ExportPanelProps) {
-  const [activeTab, setActiveTab] = useState<'2d' | '3d'>('2d');
   const [isExporting, setIsExporting] = useState(false);
+  const [objectName, setObjectName] = useState('');
+  const [curveToleranceMm, setCurveToleranceMm] = useState(0.05); // how far fitted arcs/curves may stray; 0 = polyline
+
+  // The open tab is the machine's export format; kerf is compensated in SVG/DXF
+  const { kerfMm, exportFormat } = machine;
+  const activeTab = exportFormat === 'svg' ? '2d' : exportFormat === 'dxf' ? 'dxf' : '3d';
+  const preferred3d = exportFormat === 'stl' || exportFormat === '3mf' ? exportFormat : null;
 
   const handleDownloadSVG = useCallback(() => {
     setIsExporting(true);
-    const svg = generateSVG(contour, contourBounds, config, pixelsPerMm);
+    const svg = generateSVG(contours, contourBounds, config, pixelsPerMm, kerfMm, curveToleranceMm);
     const date = new Date().toISOString().split('T')[0];
     downloadSVG(svg, `jigsnap-${date}.svg`);
     setIsExporting(false);
-  }, [contour, contourBounds, config, pixelsPerMm]);
+  }, [contours, contourBounds, config, pixelsPerMm, kerfMm, curveToleranceMm]);
+
+  const handleDownloadDXF = useCallback(() => {
+    setIsExporting(true);
+    const dxf = generateDXF(contours, contourBounds, config, pixelsPerMm, kerfMm, curveToleranceMm);
+    const date = new Date().toISOString().split('T')[0];
+    downloadDXF(dxf, `jigsnap-${date}.dxf`);
+    setIsExporting(false);
+  }, [contours, contourBounds, config, pixelsPerMm, kerfMm, curveToleranceMm]);
 
   const handleDownloadSTL = useCallback(() => {
     setIsExporting(true);
-    const stl = generateSTL(contour, contourBounds, config, pixelsPerMm);
+    const stl = generateSTL(contours, contourBounds, config, pixelsPerMm);
     const date = new Date().toISOString().split('T')[0];
     downloadSTL(stl, `jigsnap-${date}.stl`);
     setIsExporting(false);
-  }, [contour, contourBounds, config, pixelsPerMm]);
+  }, [contours, contourBounds, config, pixelsPerMm]);
 
-  const jigSize = config.jigSizeMm;
-  const svgSize = Math.round((contour.points.length * 20 + 1000) / 1024 * 10) / 10;
-  const stlTriangleCount = Math.round(contour.points.length * 4 + 20);
-  const stlSize = Math.round((stlTriangleCount * 50 + 84) / 1024 * 10) / 10;
+  const handleDownload3MF = useCallback(() => {
+    setIsExporting(true);
+    const name = objectName.trim();
+    const model = generate3MF(contours, contourBounds, config, pixelsPerMm, {
+      objectName: name,
+      calibrationMethod
+    });
+    const date = new Date().toISOString().split('T')[0];
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    download3MF(model, `jigsnap-${slug || date}.3mf`);
+    setIsExporting(false);
+  }, [contours, contourBounds, config, pixelsPerMm, objectName, calibrationMethod]);
+
+  const plate = useMemo(() => buildJigPlate(contours, config, pixelsPerMm), [contours, config, pixelsPerMm]);
+  // Check what this tab would export: notches and layout applied, plus kerf for laser files
+  const contourIssues = useMemo(() => {
+    const exported = activeTab === '3d' ? plate : applyKerf(plate, kerfMm);
+    return [exported.outline, ...exported.cutouts].flatMap(pts => validateContour(pts));
+  }, [plate, activeTab, kerfMm]);
+  // Slot numbers too close to each other or a cutout would merge when engraved or raised
+  const crowdedLabels = useMemo(() => crowdedSlotLabels(plate), [plate]);
+  const plateIssues = contourIssues.length + crowdedLabels.length;
+  const blocked = isExporting || plateIssues > 0;
+  const jigSize = `${plate.widthMm} × ${plate.heightMm}`;
+  const pointCount = plate.cutouts.reduce((sum, pts) => sum + pts.length, 0);
+  // Laser files are small enough to generate just to measure them
+  const laserFileKb = useMemo(() => {
+    if (plateIssues > 0 || activeTab === '3d') return null;
+    const file = activeTab === '2d'
+      ? generateSVG(contours, contourBounds, config, pixelsPerMm, kerfMm, curveToleranceMm)
+      : generateDXF(contours, contourBounds, config, pixelsPerMm, kerfMm, curveToleranceMm);
+    return Math.round(file.length / 1024 * 10) / 10;
+  }, [activeTab, plateIssues, contours, contourBounds, config, pixelsPerMm, kerfMm, curveToleranceMm]);
+
+  // Build and check the actual mesh on a worker (big bed arrays take seconds),
+  // only while the 3D tab is open and only for a plate export would accept.
+  // A result counts only for the job it was started for.
+  const meshJob = useMemo(
+    () => activeTab === '3d' && plateIssues === 0 ? { contours, config, pixelsPerMm } : null,
+    [activeTab, plateIssues, contours, config, pixelsPerMm]
+  );
+  const [meshCheck, setMeshCheck] = useState<{ job: typeof meshJob; report: MeshReport | null; error?: string } | null>(null);
+  useEffect(() => {
+    if (!meshJob) return;
+    const controller = new AbortController();
+    checkJigMesh(meshJob.contours, meshJob.config, meshJob.pixelsPerMm, controller.signal)
+      .then(report => setMeshCheck({ job: meshJob, report }))
+      .catch(err => {
+        if (!isAbortError(err)) setMeshCheck({ job: meshJob, report: null, error: err instanceof Error ? err.message : 'Mesh check failed' });
+      });
+    return () => controller.abort();
+  }, [meshJob]);
+  const current = meshJob && meshCheck?.job === meshJob ? meshCheck : null;
+  const meshReport = current?.report ?? null;
+  const isCheckingMesh = meshJob !== null && current === null;
+  // Open or overlapping surfaces make a print the slicer has to guess at; other issues only warn
+  const meshBroken = meshReport !== null && (!meshReport.watertight || meshReport.intersectingShells > 0);
+  const blocked3d = blocked || isCheckingMesh || meshBroken;
+  // Binary STL: 84-byte header plus 50 bytes per triangle
+  const stlSize = meshReport ? Math.round((meshReport.triangleCount * 50 + 84) / 1024 * 10) / 10 : null;
+
+  // Shared by the laser (SVG/DXF) tabs
+  const kerfInput = (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <label htmlFor="kerf" className="text-zinc-500">Laser kerf</label>
+        <div className="flex items-center gap-1">
+          <input
+            id="kerf"
+            type="number"
+            min="0"
+            max="1"
+            step="0.01"
+            value={kerfMm}
+            onChange={(e) => onMachineChange({ kerfMm: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-20 px-2 py-1 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm text-right focus:outline-none focus:border-cyan-500"
+          />
+          <span className="text-zinc-500">mm</span>
+        </div>
+      </div>
+      <p className="text-xs text-zinc-600">
+        {kerfMm > 0
+          ? `Cutout shrinks and border grows by ${kerfMm / 2} mm so the cut parts come out true to size`
+          : 'Set to your beam width to compensate for material burned away'}
+      </p>
+    </div>
+  );
+
+  const curveInput = (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <label htmlFor="curve-tolerance" className="text-zinc-500">Curve fitting</label>
+        <div className="flex items-center gap-1">
+          <input
+            id="curve-tolerance"
+            type="number"
+            min="0"
+            max="1"
+            step="0.01"
+            value={curveToleranceMm}
+            onChange={(e) => setCurveToleranceMm(Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-20 px-2 py-1 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm text-right focus:outline-none focus:border-cyan-500"
+          />
+          <span className="text-zinc-500">mm</span>
+        </div>
+      </div>
+      <p className="text-xs text-zinc-600">
+        {curveToleranceMm > 0
+          ? `Outlines become ${activeTab === 'dxf' ? 'lines and arcs' : 'lines, arcs and curves'} within ${curveToleranceMm} mm, so curves cut smoothly`
+          : 'Off: outlines are exported as straight segments'}
+      </p>
+    </div>
+  );
 
   return (
     <div className="flex flex-col gap-6">
+      {/* Material / machine profile */}
+      <div className="p-3 bg-zinc-800/30 border border-zinc-700 rounded-lg space-y-2">
+        <span className="text-sm text-zinc-400">Profile</span>
+        <ProfileSelector
+          current={machine}
+        />
+      </div>
+
+      {contourIssues.length > 0 && (
+        <div className="flex items-start gap-3 p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-400">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <p>
+            The exported outline has {describeContourIssues(contourIssues)}, which would give a broken mesh
+            and a doubled laser path. Go back to the Detect step and use Repair, or try smaller finger
+            notches or kerf.
+          </p>
+        </div>
+      )}
+
+      {crowdedLabels.length > 0 && (
+        <div className="flex items-start gap-3 p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-400">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <p>
+            {crowdedLabels.length === 1 ? `Slot number ${crowdedLabels[0]} runs` : `${crowdedLabels.length} slot numbers run`} into
+            a neighbour, a cutout or the plate&apos;s edge. Increase the bed spacing in the Configure step.
+          </p>
+        </div>
+      )}
+
       {/* Tab Switcher */}
       <div className="flex gap-2 p-1 bg-zinc-800 rounded-lg">
         <button
-          onClick={() => setActiveTab('2d')}
+          onClick={() => onMachineChange({ exportFormat: 'svg' })}
           className={`
             flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all
             ${activeTab === '2d' 
@@ -61,7 +227,20 @@ export default function ExportPanel({
           2D (SVG)
         </button>
         <button
-          onClick={() => setActiveTab('3d')}
+          onClick={() => onMachineChange({ exportFormat: 'dxf' })}
+          className={`
+            flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all
+            ${activeTab === 'dxf' 
+              ? 'bg-cyan-600 text-white' 
+              : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700'
+            }
+          `}
+        >
+          <FileCode className="w-4 h-4" />
+          CAD (DXF)
+        </button>
+        <button
+          onClick={() => onMachineChange({ exportFormat: preferred3d ?? 'stl' })}
           className={`
             flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all
             ${activeTab === '3d' 
@@ -71,7 +250,7 @@ export default function ExportPanel({
           `}
         >
           <Box className="w-4 h-4" />
-          3D (STL)
+          3D (STL/3MF)
         </button>
       </div>
 
@@ -89,19 +268,22 @@ export default function ExportPanel({
             <div className="grid grid-cols-2 gap-3 text-sm">
               <div className="p-2 bg-zinc-900 rounded">
                 <span className="text-zinc-500">Dimensions</span>
-                <p className="text-zinc-300">{jigSize} × {jigSize} mm</p>
+                <p className="text-zinc-300">{jigSize} mm</p>
               </div>
               <div className="p-2 bg-zinc-900 rounded">
-                <span className="text-zinc-500">Est. Size</span>
-                <p className="text-zinc-300">~{svgSize} KB</p>
+                <span className="text-zinc-500">File Size</span>
+                <p className="text-zinc-300">{laserFileKb !== null ? `${laserFileKb} KB` : '—'}</p>
               </div>
             </div>
 
+            {kerfInput}
+            {curveInput}
+
             <button
               onClick={handleDownloadSVG}
-              disabled={isExporting}
+              disabled={blocked}
               className="w-full flex items-center justify-center gap-2 px-6 py-3 
-                       bg-cyan-600 hover:bg-cyan-500 disabled:bg-cyan-800
+                       bg-cyan-600 hover:bg-cyan-500 disabled:bg-cyan-800 disabled:cursor-not-allowed
                        text-white font-medium rounded-lg transition-colors"
             >
               {isExporting ? (
@@ -114,40 +296,38 @@ export default function ExportPanel({
 
             <ul className="text-xs text-zinc-500 space-y-1">
               <li>• Units in millimeters</li>
-              <li>• Includes alignment crosshairs</li>
+              {plate.hasCorners && <li>• Includes alignment crosshairs</li>}
               <li>• Compatible with LightBurn</li>
             </ul>
           </>
-        ) : (
+        ) : activeTab === 'dxf' ? (
           <>
             <div>
-              <h4 className="text-sm font-medium text-zinc-300">STL Export</h4>
+              <h4 className="text-sm font-medium text-zinc-300">DXF Export</h4>
               <p className="text-sm text-zinc-500 mt-1">
-                For 3D printing the alignment jig
+                For CAD/CAM and laser software that only accepts DXF
               </p>
             </div>
             
             <div className="grid grid-cols-2 gap-3 text-sm">
               <div className="p-2 bg-zinc-900 rounded">
-                <span className="text-zinc-500">Extrude Height</span>
-                <p className="text-zinc-300">{config.extrudeHeightMm} mm</p>
+                <span className="text-zinc-500">Dimensions</span>
+                <p className="text-zinc-300">{jigSize} mm</p>
               </div>
               <div className="p-2 bg-zinc-900 rounded">
-                <span className="text-zinc-500">Est. Size</span>
-                <p className="text-zinc-300">~{stlSize} KB</p>
+                <span className="text-zinc-500">File Size</span>
+                <p className="text-zinc-300">{laserFileKb !== null ? `${laserFileKb} KB` : '—'}</p>
               </div>
             </div>
 
-            <div className="text-sm">
-              <span className="text-zinc-500">Cutout: </span>
-              <span className="text-zinc-300">Through-cut</span>
-            </div>
+            {kerfInput}
+            {curveInput}
 
             <button
-              onClick={handleDownloadSTL}
-              disabled={isExporting}
+              onClick={handleDownloadDXF}
+              disabled={blocked}
               className="w-full flex items-center justify-center gap-2 px-6 py-3 
-                       bg-cyan-600 hover:bg-cyan-500 disabled:bg-cyan-800
+                       bg-cyan-600 hover:bg-cyan-500 disabled:bg-cyan-800 disabled:cursor-not-allowed
                        text-white font-medium rounded-lg transition-colors"
             >
               {isExporting ? (
@@ -155,12 +335,148 @@ export default function ExportPanel({
               ) : (
                 <Download className="w-5 h-5" />
               )}
-              Download STL
+              Download DXF
             </button>
 
             <ul className="text-xs text-zinc-500 space-y-1">
-              <li>• Binary STL format</li>
-              <li>• {stlTriangleCount.toLocaleString()} triangles</li>
+              <li>• Units in millimeters (R12 ASCII)</li>
+              <li>• Layers: JIG_BORDER, CUTOUT, CROSSHAIRS, SLOT_LABELS (bed arrays)</li>
+              <li>• Opens in LightBurn, RDWorks, Fusion 360, etc.</li>
+            </ul>
+          </>
+        ) : (
+          <>
+            <div>
+              <h4 className="text-sm font-medium text-zinc-300">STL / 3MF Export</h4>
+              <p className="text-sm text-zinc-500 mt-1">
+                For 3D printing the alignment jig
+              </p>
+            </div>
+            
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="p-2 bg-zinc-900 rounded">
+                <span className="text-zinc-500">Extrude Height</span>
+                <p className="text-zinc-300">{config.extrudeHeightMm} mm</p>
+              </div>
+              <div className="p-2 bg-zinc-900 rounded">
+                <span className="text-zinc-500">STL Size</span>
+                <p className="text-zinc-300">{stlSize !== null ? `${stlSize} KB` : '—'}</p>
+              </div>
+            </div>
+
+            <div className="text-sm">
+              <span className="text-zinc-500">Cutout: </span>
+              <span className="text-zinc-300">
+                {config.pocketDepthMm ? `${config.pocketDepthMm} mm pocket with floor` : 'Through-cut'}
+              </span>
+            </div>
+
+            {isCheckingMesh && (
+              <p className="flex items-center gap-2 p-3 bg-zinc-900 rounded-lg text-sm text-zinc-400">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Building and checking the mesh...
+              </p>
+            )}
+
+            {current?.error && (
+              <p className="p-3 bg-amber-900/20 border border-amber-800 rounded-lg text-xs text-amber-400">
+                Couldn&apos;t check the mesh ({current.error}). Check the sliced preview before printing.
+              </p>
+            )}
+
+            {meshReport && (
+              <div className="p-3 bg-zinc-900 rounded-lg space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-zinc-500">Triangles</span>
+                  <span className="text-zinc-300">{meshReport.triangleCount.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-zinc-500">Volume</span>
+                  <span className="text-zinc-300">{(Math.abs(meshReport.volumeMm3) / 1000).toFixed(1)} cm³</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-zinc-500">Bounding box</span>
+                  <span className="text-zinc-300">
+                    {(meshReport.bounds.max.x - meshReport.bounds.min.x).toFixed(1)} ×{' '}
+                    {(meshReport.bounds.max.y - meshReport.bounds.min.y).toFixed(1)} ×{' '}
+                    {(meshReport.bounds.max.z - meshReport.bounds.min.z).toFixed(1)} mm
+                  </span>
+                </div>
+                {meshReport.issues.length === 0 ? (
+                  <p className="flex items-center gap-2 text-cyan-400">
+                    <Check className="w-4 h-4" />
+                    Watertight, ready to slice
+                  </p>
+                ) : meshBroken ? (
+                  <div className="p-2 bg-red-900/20 border border-red-800 rounded text-red-400 text-xs space-y-1">
+                    <p className="flex items-center gap-2 font-medium">
+                      <AlertTriangle className="w-4 h-4" />
+                      {meshReport.watertight ? 'Mesh has overlapping parts' : 'Mesh is not watertight'}
+                    </p>
+                    <ul className="space-y-0.5">
+                      {meshReport.issues.map(issue => <li key={issue}>• {issue}</li>)}
+                    </ul>
+                    <p>Download is disabled. Try more bed spacing, smaller finger notches or a simpler outline.</p>
+                  </div>
+                ) : (
+                  <div className="p-2 bg-amber-900/20 border border-amber-800 rounded text-amber-400 text-xs space-y-1">
+                    <p className="flex items-center gap-2 font-medium">
+                      <AlertTriangle className="w-4 h-4" />
+                      Mesh has problems
+                    </p>
+                    <ul className="space-y-0.5">
+                      {meshReport.issues.map(issue => <li key={issue}>• {issue}</li>)}
+                    </ul>
+                    <p>Most slicers can repair this, but check the sliced preview.</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="text-xs text-zinc-500 block mb-1">Object name (3MF)</label>
+              <input
+                type="text"
+                value={objectName}
+                placeholder="e.g. Chef knife 210mm"
+                onChange={(e) => setObjectName(e.target.value)}
+                className="w-full px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm focus:outline-none focus:border-cyan-500"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={handleDownloadSTL}
+                disabled={blocked3d}
+                className={`flex items-center justify-center gap-2 px-4 py-3 
+                         ${preferred3d === '3mf' ? 'bg-zinc-700 hover:bg-zinc-600' : 'bg-cyan-600 hover:bg-cyan-500'} disabled:bg-cyan-800 disabled:cursor-not-allowed
+                         text-white font-medium rounded-lg transition-colors`}
+              >
+                {isExporting ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Download className="w-5 h-5" />
+                )}
+                STL
+              </button>
+              <button
+                onClick={handleDownload3MF}
+                disabled={blocked3d}
+                className={`flex items-center justify-center gap-2 px-4 py-3 
+                         ${preferred3d === 'stl' ? 'bg-zinc-700 hover:bg-zinc-600' : 'bg-cyan-600 hover:bg-cyan-500'} disabled:bg-cyan-800 disabled:cursor-not-allowed
+                         text-white font-medium rounded-lg transition-colors`}
+              >
+                {isExporting ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Download className="w-5 h-5" />
+                )}
+                3MF
+              </button>
+            </div>
+
+            <ul className="text-xs text-zinc-500 space-y-1">
+              <li>• Binary STL, or 3MF with mm units and metadata</li>
               <li>• Import into Cura, PrusaSlicer, etc.</li>
             </ul>
           </>
@@ -172,12 +488,20 @@ export default function ExportPanel({
         <h4 className="text-sm font-medium text-zinc-300 mb-3">Export Summary</h4>
         <div className="space-y-2 text-sm">
           <div className="flex justify-between">
-            <span className="text-zinc-500">Jig size (square)</span>
-            <span className="text-zinc-300">{jigSize} × {jigSize} mm</span>
+            <span className="text-zinc-500">Jig shape</span>
+            <span className="text-zinc-300">{describeJigShape(config)}</span>
           </div>
+          {config.bedArray && (
+            <div className="flex justify-between">
+              <span className="text-zinc-500">Slots</span>
+              <span className="text-zinc-300">{plate.labels.length} (numbered)</span>
+            </div>
+          )}
           <div className="flex justify-between">
-            <span className="text-zinc-500">Object cutout</span>
-            <span className="text-zinc-300">{contour.points.length} points</span>
+            <span className="text-zinc-500">Object cutout{contours.length !== 1 ? 's' : ''}</span>
+            <span className="text-zinc-300">
+              {contours.length > 1 ? `${contours.length} × ` : ''}{pointCount} points
+            </span>
           </div>
           <div className="flex justify-between">
             <span className="text-zinc-500">Scale</span>
@@ -3,24 +3,25 @@
 import React from 'react';
 import type { Contour, JigConfig } from '@/lib/types';
 import { generateSVG } from '@/lib/svg-export';
+import { getJigSizeMm, JIG_SHAPE_LABELS } from '@/lib/jig-utils';
 
 interface JigPreviewProps {
-  contour: Contour;
+  contours: Contour[];
   pixelsPerMm: number;
   config: JigConfig;
   contourBounds: { width: number; height: number };
 }
 
 export default function JigPreview({ 
-  contour, 
+  contours, 
   pixelsPerMm, 
   config,
   contourBounds 
 }: JigPreviewProps) {
   // Generate SVG for preview
-  const svgContent = generateSVG(contour, contourBounds, config, pixelsPerMm);
+  const svgContent = generateSVG(contours, contourBounds, config, pixelsPerMm);
   
-  const jigSize = config.jigSizeMm;
+  const jigSize = getJigSizeMm(config);
   
   return (
     <div className="flex flex-col gap-4">
@@ -36,8 +37,12 @@ export default function JigPreview({
       {/* Dimensions Info */}
       <div className="grid grid-cols-2 gap-4">
         <div className="p-3 bg-zinc-800/50 rounded-lg border border-zinc-700">
-          <span className="text-xs text-zinc-500">Jig Size (square)</span>
-          <p className="text-lg text-zinc-200">{jigSize} × {jigSize} mm</p>
+          <span className="text-xs text-zinc-500">
+            {config.bedArray ? 'Bed Plate' : `Jig Size (${JIG_SHAPE_LABELS[config.outerShape].toLowerCase()})`}
+          </span>
+          <p className="text-lg text-zinc-200">
+            {!config.bedArray && config.outerShape === 'circle' ? `Ø${jigSize.width}` : `${jigSize.width} × ${jigSize.height}`} mm
+          </p>
         </div>
         <div className="p-3 bg-zinc-800/50 rounded-lg border border-zinc-700">
           <span className="text-xs text-zinc-500">Extrude Height</span>
@@ -51,12 +56,20 @@ export default function JigPreview({
         <ul className="space-y-2 text-sm text-zinc-400">
           <li className="flex items-center gap-2">
             <div className="w-1.5 h-1.5 bg-cyan-500 rounded-full" />
-            Object cutout path (cyan line)
-          </li>
-          <li className="flex items-center gap-2">
-            <div className="w-1.5 h-1.5 bg-zinc-500 rounded-full" />
-            Corner crosshairs for alignment
+            {contours.length > 1 ? `${contours.length} object cutout paths` : 'Object cutout path'} (cyan line)
           </li>
+          {config.fingerNotches && (
+            <li className="flex items-center gap-2">
+              <div className="w-1.5 h-1.5 bg-cyan-500 rounded-full" />
+              Finger notches ({config.fingerNotches.radiusMm} mm radius) merged into the cutout
+            </li>
+          )}
+          {(config.bedArray || config.outerShape === 'square' || config.outerShape === 'rectangle') && (
+            <li className="flex items-center gap-2">
+              <div className="w-1.5 h-1.5 bg-zinc-500 rounded-full" />
+              Corner crosshairs for alignment
+            </li>
+          )}
           <li className="flex items-center gap-2">
             <div className="w-1.5 h-1.5 bg-zinc-500 rounded-full" />
             Scale bar reference (10mm)
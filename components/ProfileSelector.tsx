@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import type { MachineProfile, MachineSettings } from '@/lib/types';
+import {
+  loadProfiles,
+  getActiveProfile,
+  setActiveProfile,
+  saveProfile,
+  deleteProfile,
+  createProfileId,
+  PROFILE_CHANGED_EVENT,
+} from '@/lib/profiles';
+
+interface ProfileSelectorProps {
+  // The settings in use, saved into the profile
+  current: MachineSettings;
+}
+
+export default function ProfileSelector({ current }: ProfileSelectorProps) {
+  const [profiles, setProfiles] = useState<MachineProfile[]>([]);
+  const [activeId, setActiveId] = useState<string>('');
+  const [newName, setNewName] = useState('');
+  const [isNaming, setIsNaming] = useState(false);
+
+  // Read storage after mount (it isn't available while prerendering)
+  useEffect(() => {
+    const refresh = () => {
+      setProfiles(loadProfiles());
+      setActiveId(getActiveProfile()?.id ?? '');
+    };
+    refresh();
+    window.addEventListener(PROFILE_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(PROFILE_CHANGED_EVENT, refresh);
+  }, []);
+
+  const active = profiles.find(p => p.id === activeId) ?? null;
+
+  const handleSaveAs = () => {
+    const name = newName.trim();
+    if (!name) return;
+    saveProfile({ ...current, id: createProfileId(name), name });
+    setNewName('');
+    setIsNaming(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={activeId}
+          onChange={(e) => setActiveProfile(e.target.value || null)}
+          className="flex-1 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm focus:outline-none focus:border-cyan-500"
+        >
+          <option value="">No profile</option>
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        {active && (
+          <>
+            <button
+              onClick={() => saveProfile({ ...active, ...current })}
+              title="Update this profile with the current settings"
+              className="p-2 bg-zinc-700 hover:bg-zinc-600 rounded-lg text-zinc-300"
+            >
+              <Save className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => deleteProfile(active.id)}
+              title="Delete this profile"
+              className="p-2 bg-zinc-700 hover:bg-red-900 rounded-lg text-zinc-300"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {active && (
+        <p className="text-xs text-zinc-500">
+          {active.thicknessMm} mm sheet · {active.clearanceMm} mm clearance · {active.kerfMm} mm kerf ·
+          {' '}{active.bedWidthMm} × {active.bedHeightMm} mm bed · {active.exportFormat.toUpperCase()}
+        </p>
+      )}
+
+      {isNaming ? (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            autoFocus
+            placeholder="e.g. 3 mm birch on 40 W diode"
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveAs(); if (e.key === 'Escape') setIsNaming(false); }}
+            className="flex-1 px-3 py-1.5 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm focus:outline-none focus:border-cyan-500"
+          />
+          <button
+            onClick={handleSaveAs}
+            disabled={!newName.trim()}
+            className="px-3 py-1.5 text-sm bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 rounded-lg text-white"
+          >
+            Save
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsNaming(true)}
+          className="text-xs text-cyan-400 hover:text-cyan-300"
+        >
+          + Save current settings as a new profile
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,28 +1,58 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Ruler, Check, AlertCircle } from 'lucide-react';
-import type { A4Paper, ScaleCalibration, JigConfig } from '@/lib/types';
+import type { A4Paper, Contour, ScaleCalibration, JigConfig, BedArrayConfig, JigShape, FingerNotchConfig, MachineSettings } from '@/lib/types';
 import { calculatePixelsPerMm } from '@/lib/paper-detect';
-import { computeSquareJigSizeMm } from '@/lib/jig-utils';
+import { applyFingerNotches } from '@/lib/finger-notch';
+import ProfileSelector from '@/components/ProfileSelector';
+import {
+  computeLayoutJigSizeMm,
+  computeLayoutRectSizeMm,
+  computeLayoutCircleSizeMm,
+  layoutCutoutsMm,
+  nestOnBed,
+  JIG_SHAPE_LABELS,
+} from '@/lib/jig-utils';
 
 interface ScaleCalibrationProps {
   a4Paper: A4Paper | null;
+  contours: Contour[];
   contourBounds: { width: number; height: number } | null;
   onCalibrationChange: (calibration: ScaleCalibration) => void;
   onConfigChange: (config: JigConfig) => void;
+  machine: MachineSettings; // from the selected profile, or edited here
+  onMachineChange: (changes: Partial<MachineSettings>) => void;
 }
 
 export default function ScaleCalibration({
   a4Paper,
+  contours,
   contourBounds,
   onCalibrationChange,
-  onConfigChange
+  onConfigChange,
+  machine,
+  onMachineChange
 }: ScaleCalibrationProps) {
   const [useManual, setUseManual] = useState(!a4Paper);
   const [manualPixelsPerMm, setManualPixelsPerMm] = useState(10);
   const [manualReference, setManualReference] = useState({ lengthPx: 100, lengthMm: 10 });
-  const [extrudeHeightMm, setExtrudeHeightMm] = useState(6);
+  const [minWebMm, setMinWebMm] = useState(5);
+  const [useNotches, setUseNotches] = useState(false);
+  const [notch, setNotch] = useState<FingerNotchConfig>({ radiusMm: 8, autoCount: 1 });
+  const [usePocket, setUsePocket] = useState(false);
+  const [pocketDepthMm, setPocketDepthMm] = useState(4);
+  const [outerShape, setOuterShape] = useState<JigShape>('square');
+  const [cornerRadiusMm, setCornerRadiusMm] = useState(10);
+  const [useBedArray, setUseBedArray] = useState(false);
+  const [bedNesting, setBedNesting] = useState({ spacingMm: 5, allowRotation: true });
+
+  // Sheet thickness and bed size are machine settings, kept by the page
+  const extrudeHeightMm = machine.thicknessMm;
+  const bed = useMemo<BedArrayConfig>(
+    () => ({ bedWidthMm: machine.bedWidthMm, bedHeightMm: machine.bedHeightMm, ...bedNesting }),
+    [machine.bedWidthMm, machine.bedHeightMm, bedNesting]
+  );
 
   const autoPxPerMm = a4Paper ? calculatePixelsPerMm(a4Paper) : null;
   const activePxPerMm = useManual ? manualPixelsPerMm : (autoPxPerMm ?? manualPixelsPerMm);
@@ -51,13 +81,55 @@ export default function ScaleCalibration({
     }
   }, [useManual, manualReference, onCalibrationChange]);
 
-  // Compute square jig size and notify config changes
+  // Pocket has to leave at least some floor when the extrude height shrinks
+  const effectivePocketDepthMm = Math.min(pocketDepthMm, extrudeHeightMm - 0.5);
+
+  const fingerNotches = useNotches ? notch : undefined;
+
+  // Cutouts in mm (notches included) once the minimum web is enforced; every jig size is derived from them
+  const layoutMm = useMemo(() => {
+    if (contours.length === 0 || activePxPerMm <= 0) return null;
+    return layoutCutoutsMm(applyFingerNotches(contours, fingerNotches, activePxPerMm), activePxPerMm, minWebMm);
+  }, [contours, activePxPerMm, minWebMm, fingerNotches]);
+
+  const jigSize = useMemo(() => {
+    if (!layoutMm) return null;
+    const tight = computeLayoutRectSizeMm(layoutMm);
+    // Rounded corners may need a larger plate to keep the web around the cutouts
+    const rect = outerShape === 'rounded' ? computeLayoutRectSizeMm(layoutMm, cornerRadiusMm, minWebMm) : tight;
+    return {
+      // Circle jigs keep their diameter in jigSizeMm
+      side: outerShape === 'circle' ? computeLayoutCircleSizeMm(layoutMm) : computeLayoutJigSizeMm(layoutMm),
+      width: rect.width,
+      height: rect.height,
+      maxCornerRadius: Math.min(tight.width, tight.height) / 2,
+      grownForCorners: rect.width > tight.width,
+    };
+  }, [layoutMm, outerShape, cornerRadiusMm, minWebMm]);
+
+  // How many copies the bed array packs
+  const bedCopies = useMemo(() => {
+    if (!useBedArray || !layoutMm) return null;
+    return nestOnBed(layoutMm, bed).length;
+  }, [useBedArray, layoutMm, bed]);
+
+  // Notify config changes
   useEffect(() => {
-    if (contourBounds && activePxPerMm > 0) {
-      const jigSizeMm = computeSquareJigSizeMm(contourBounds, activePxPerMm);
-      onConfigChange({ extrudeHeightMm, jigSizeMm });
+    if (jigSize) {
+      onConfigChange({
+        extrudeHeightMm,
+        pocketDepthMm: usePocket ? effectivePocketDepthMm : undefined,
+        jigSizeMm: jigSize.side,
+        jigWidthMm: jigSize.width,
+        jigHeightMm: jigSize.height,
+        outerShape,
+        cornerRadiusMm,
+        minWebMm,
+        bedArray: useBedArray ? bed : undefined,
+        fingerNotches,
+      });
     }
-  }, [contourBounds, activePxPerMm, extrudeHeightMm, onConfigChange]);
+  }, [jigSize, extrudeHeightMm, usePocket, effectivePocketDepthMm, outerShape, cornerRadiusMm, minWebMm, useBedArray, bed, fingerNotches, onConfigChange]);
 
   // Calculate object dimensions
   const objectDimensions = contourBounds && activePxPerMm > 0 ? {
@@ -65,10 +137,6 @@ export default function ScaleCalibration({
     height: (contourBounds.height / activePxPerMm).toFixed(1)
   } : null;
 
-  const jigSizeMm = contourBounds && activePxPerMm > 0
-    ? computeSquareJigSizeMm(contourBounds, activePxPerMm)
-    : null;
-
   return (
     <div className="flex flex-col gap-6">
       {/* Auto Calibration (Paper) */}
@@ -169,7 +237,7 @@ export default function ScaleCalibration({
         <div className="p-4 bg-zinc-800/30 border border-zinc-700 rounded-lg">
           <h4 className="text-sm font-medium text-zinc-300 flex items-center gap-2">
             <Ruler className="w-4 h-4" />
-            Detected Object Dimensions
+            {contours.length > 1 ? `Detected Objects (${contours.length}) — Combined Extent` : 'Detected Object Dimensions'}
           </h4>
           <div className="mt-2 grid grid-cols-2 gap-4">
             <div>
@@ -187,15 +255,162 @@ export default function ScaleCalibration({
       {/* Jig Configuration */}
       <div className="space-y-4 p-4 bg-zinc-800/30 border border-zinc-700 rounded-lg">
         <h4 className="text-sm font-medium text-zinc-300">Jig Settings</h4>
+
+        {/* Material / machine profile */}
+        <div className="space-y-2">
+          <span className="text-sm text-zinc-400">Profile</span>
+          <ProfileSelector
+            current={machine}
+          />
+          <p className="text-xs text-zinc-500">
+            A {machine.clearanceMm} mm clearance is applied to the outline (set in the Detect step).
+          </p>
+        </div>
         
-        {/* Computed square jig size */}
-        {jigSizeMm && (
+        {/* Outer shape */}
+        {!useBedArray && (
+          <div className="space-y-2">
+            <span className="text-sm text-zinc-400">Outer shape</span>
+            <div className="grid grid-cols-4 gap-2">
+              {(Object.keys(JIG_SHAPE_LABELS) as JigShape[]).map(shape => (
+                <button
+                  key={shape}
+                  onClick={() => setOuterShape(shape)}
+                  className={`
+                    px-2 py-1.5 text-xs rounded-md border transition-colors
+                    ${outerShape === shape
+                      ? 'bg-cyan-900/30 border-cyan-600 text-cyan-300'
+                      : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:border-zinc-600'
+                    }
+                  `}
+                >
+                  {JIG_SHAPE_LABELS[shape]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Computed jig size */}
+        {jigSize && !useBedArray && (
           <div className="flex justify-between text-sm">
-            <span className="text-zinc-400">Square jig size</span>
-            <span className="text-cyan-400 font-medium">{jigSizeMm} × {jigSizeMm} mm</span>
+            <span className="text-zinc-400">{JIG_SHAPE_LABELS[outerShape]} jig size</span>
+            <span className="text-cyan-400 font-medium">
+              {outerShape === 'circle'
+                ? `Ø${jigSize.side} mm`
+                : outerShape === 'square'
+                  ? `${jigSize.side} × ${jigSize.side} mm`
+                  : `${jigSize.width} × ${jigSize.height} mm`}
+            </span>
+          </div>
+        )}
+
+        {/* Corner radius */}
+        {outerShape === 'rounded' && !useBedArray && jigSize && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-zinc-400">Corner radius</span>
+              <span className="text-zinc-500">{cornerRadiusMm} mm</span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max={jigSize.maxCornerRadius}
+              value={cornerRadiusMm}
+              onChange={(e) => setCornerRadiusMm(parseInt(e.target.value))}
+              className="w-full accent-cyan-500"
+            />
+            {jigSize.grownForCorners && (
+              <p className="text-xs text-zinc-500">
+                Plate enlarged so the corners leave {minWebMm} mm around the cutouts
+              </p>
+            )}
           </div>
         )}
 
+        {/* Minimum web between cutouts */}
+        {contours.length > 1 && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-zinc-400">Min. web between cutouts</span>
+              <span className="text-zinc-500">{minWebMm} mm</span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="20"
+              step="0.5"
+              value={minWebMm}
+              onChange={(e) => setMinWebMm(parseFloat(e.target.value))}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+        )}
+
+        {/* Bed array */}
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm text-zinc-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={useBedArray}
+              onChange={(e) => setUseBedArray(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Bed array (pack numbered copies onto one plate)
+          </label>
+
+          {useBedArray && (
+            <div className="space-y-3 pl-6">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="text-xs text-zinc-500 block mb-1">Bed width (mm)</label>
+                  <input
+                    type="number"
+                    value={bed.bedWidthMm}
+                    onChange={(e) => onMachineChange({ bedWidthMm: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm focus:outline-none focus:border-cyan-500"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-zinc-500 block mb-1">Bed height (mm)</label>
+                  <input
+                    type="number"
+                    value={bed.bedHeightMm}
+                    onChange={(e) => onMachineChange({ bedHeightMm: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm focus:outline-none focus:border-cyan-500"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-zinc-500 block mb-1">Spacing (mm)</label>
+                  <input
+                    type="number"
+                    value={bed.spacingMm}
+                    onChange={(e) => setBedNesting(prev => ({ ...prev, spacingMm: parseFloat(e.target.value) || 0 }))}
+                    className="w-full px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm focus:outline-none focus:border-cyan-500"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={bed.allowRotation}
+                  onChange={(e) => setBedNesting(prev => ({ ...prev, allowRotation: e.target.checked }))}
+                  className="accent-cyan-500"
+                />
+                Allow 90° rotation
+              </label>
+              {bedCopies !== null && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-zinc-400">Copies on bed</span>
+                  <span className={bedCopies > 0 ? 'text-cyan-400 font-medium' : 'text-amber-400 font-medium'}>
+                    {bedCopies > 0 ? bedCopies : 'Does not fit'}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Extrude Height */}
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
@@ -207,13 +422,95 @@ export default function ScaleCalibration({
             min="2"
             max="20"
             value={extrudeHeightMm}
-            onChange={(e) => setExtrudeHeightMm(parseInt(e.target.value))}
+            onChange={(e) => onMachineChange({ thicknessMm: parseInt(e.target.value) })}
             className="w-full accent-cyan-500"
           />
         </div>
 
+        {/* Finger notches */}
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-zinc-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={useNotches}
+              onChange={(e) => setUseNotches(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Finger notches for lifting the part out
+          </label>
+          {useNotches && (
+            <div className="space-y-3 pl-6">
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-zinc-400">Notch radius</span>
+                  <span className="text-zinc-500">{notch.radiusMm} mm</span>
+                </div>
+                <input
+                  type="range"
+                  min="3"
+                  max="20"
+                  step="0.5"
+                  value={notch.radiusMm}
+                  onChange={(e) => setNotch(prev => ({ ...prev, radiusMm: parseFloat(e.target.value) }))}
+                  className="w-full accent-cyan-500"
+                />
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-zinc-400">Automatic notches per object</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="4"
+                  value={notch.autoCount}
+                  onChange={(e) => setNotch(prev => ({ ...prev, autoCount: Math.max(1, Math.min(4, parseInt(e.target.value) || 1)) }))}
+                  className="w-16 px-2 py-1 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-200 text-sm focus:outline-none focus:border-cyan-500"
+                />
+              </div>
+              <p className="text-xs text-zinc-500">
+                {contours.some(c => c.notches?.length)
+                  ? 'Objects with notches clicked in the Detect step use those; the rest go on the longest straight edges.'
+                  : 'Placed on the longest straight edges. Use Notch mode in the Detect step to place them yourself.'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Pocket depth */}
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-zinc-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={usePocket}
+              onChange={(e) => setUsePocket(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Blind pocket with a solid floor (3D printing)
+          </label>
+          {usePocket && (
+            <>
+              <div className="flex justify-between text-sm">
+                <span className="text-zinc-400">Pocket Depth</span>
+                <span className="text-zinc-500">
+                  {effectivePocketDepthMm} mm ({(extrudeHeightMm - effectivePocketDepthMm).toFixed(1)} mm floor)
+                </span>
+              </div>
+              <input
+                type="range"
+                min="0.5"
+                max={extrudeHeightMm - 0.5}
+                step="0.5"
+                value={effectivePocketDepthMm}
+                onChange={(e) => setPocketDepthMm(parseFloat(e.target.value))}
+                className="w-full accent-cyan-500"
+              />
+            </>
+          )}
+        </div>
+
         <p className="text-xs text-zinc-500">
-          Cutout goes all the way through (through-cut)
+          {usePocket
+            ? `Cutout is a ${effectivePocketDepthMm} mm deep pocket; the floor sits ${(extrudeHeightMm - effectivePocketDepthMm).toFixed(1)} mm above the bed`
+            : 'Cutout goes all the way through (through-cut)'}
         </p>
       </div>
 
@@ -3,17 +3,19 @@
 import React, { useEffect, useRef } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import type { Contour, JigConfig } from '@/lib/types';
+import { mergeGeometries } from 'three/addons/utils/BufferGeometryUtils.js';
+import type { Contour, JigConfig, Point } from '@/lib/types';
+import { buildJigPlate } from '@/lib/jig-utils';
 
 interface ThreeDPreviewProps {
-  contour: Contour;
+  contours: Contour[];
   pixelsPerMm: number;
   config: JigConfig;
   contourBounds: { width: number; height: number };
 }
 
 export default function ThreeDPreview({ 
-  contour, 
+  contours, 
   pixelsPerMm, 
   config,
   contourBounds 
@@ -98,40 +100,50 @@ export default function ThreeDPreview({
       (oldMesh.material as THREE.Material).dispose();
     }
 
-    const jigSize = config.jigSizeMm;
-    const centerX = contour.points.reduce((sum, p) => sum + p.x, 0) / contour.points.length;
-    const centerY = contour.points.reduce((sum, p) => sum + p.y, 0) / contour.points.length;
-
-    // Create outer shape (square)
-    const outerShape = new THREE.Shape();
-    const half = jigSize / 2;
-    outerShape.moveTo(-half, -half);
-    outerShape.lineTo(half, -half);
-    outerShape.lineTo(half, half);
-    outerShape.lineTo(-half, half);
-    outerShape.closePath();
-
-    // Create contour hole (through-cut)
-    const holePath = new THREE.Path();
-    contour.points.forEach((p, i) => {
-      const mmX = (p.x - centerX) / pixelsPerMm;
-      const mmY = -(p.y - centerY) / pixelsPerMm;
-      if (i === 0) {
-        holePath.moveTo(mmX, mmY);
-      } else {
-        holePath.lineTo(mmX, mmY);
-      }
+    const plate = buildJigPlate(contours, config, pixelsPerMm);
+    const jigSize = Math.max(plate.widthMm, plate.heightMm);
+
+    // Plate geometry is Y-down; Three.js is Y-up
+    const toShapePath = <T extends THREE.Path>(path: T, pts: Point[]): T => {
+      pts.forEach((p, i) => {
+        if (i === 0) {
+          path.moveTo(p.x, -p.y);
+        } else {
+          path.lineTo(p.x, -p.y);
+        }
+      });
+      path.closePath();
+      return path;
+    };
+
+    // Create outer shape
+    const outerShape = toShapePath(new THREE.Shape(), plate.outline);
+
+    // Create contour holes
+    plate.cutouts.forEach(pts => {
+      outerShape.holes.push(toShapePath(new THREE.Path(), pts));
     });
-    holePath.closePath();
-    outerShape.holes.push(holePath);
 
-    const geometry = new THREE.ExtrudeGeometry(outerShape, {
-      depth: config.extrudeHeightMm,
-      bevelEnabled: false,
-      curveSegments: 32
+    // Blind pockets sit on a solid floor; through-cuts (the default) use the full height
+    const height = config.extrudeHeightMm;
+    const pocketDepth = config.pocketDepthMm ?? 0;
+    const floor = pocketDepth > 0 && pocketDepth < height ? height - pocketDepth : 0;
+
+    const extrudeOptions = { bevelEnabled: false, curveSegments: 32 };
+    let geometry: THREE.BufferGeometry = new THREE.ExtrudeGeometry(outerShape, {
+      ...extrudeOptions,
+      depth: height - floor,
     });
+    if (floor > 0) {
+      const base = new THREE.ExtrudeGeometry(toShapePath(new THREE.Shape(), plate.outline), {
+        ...extrudeOptions,
+        depth: floor,
+      });
+      geometry.translate(0, 0, floor);
+      geometry = mergeGeometries([base, geometry]) ?? geometry;
+    }
 
-    geometry.translate(0, 0, -config.extrudeHeightMm / 2);
+    geometry.translate(0, 0, -height / 2);
 
     const material = new THREE.MeshStandardMaterial({
       color: 0x3f3f46,
@@ -159,7 +171,7 @@ export default function ThreeDPreview({
     sceneRef.current.camera.position.z = maxDim * 2;
     sceneRef.current.controls.update();
 
-  }, [contour, pixelsPerMm, config, contourBounds]);
+  }, [contours, pixelsPerMm, config, contourBounds]);
 
   return (
     <div className="flex flex-col gap-4">
@@ -0,0 +1,55 @@
+import type { CameraProfile } from './types';
+
+// Lens profiles, one per phone camera, kept in localStorage. Components listen
+// for 'camera-changed' (detail: the active camera or null) to pick up a switch.
+
+const CAMERAS_KEY = 'jigsnap-cameras';
+const ACTIVE_KEY = 'jigsnap-active-camera';
+
+export const CAMERA_CHANGED_EVENT = 'camera-changed';
+
+export function loadCameras(): CameraProfile[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(CAMERAS_KEY);
+    return raw ? (JSON.parse(raw) as CameraProfile[]) : [];
+  } catch (e) {
+    console.warn('[cameras] Could not read saved cameras:', e);
+    return [];
+  }
+}
+
+function storeCameras(cameras: CameraProfile[]): void {
+  window.localStorage.setItem(CAMERAS_KEY, JSON.stringify(cameras));
+}
+
+export function getActiveCamera(): CameraProfile | null {
+  if (typeof window === 'undefined') return null;
+  const id = window.localStorage.getItem(ACTIVE_KEY);
+  return loadCameras().find(c => c.id === id) ?? null;
+}
+
+function notify(): void {
+  window.dispatchEvent(new CustomEvent(CAMERA_CHANGED_EVENT, { detail: getActiveCamera() }));
+}
+
+export function setActiveCamera(id: string | null): void {
+  if (id) window.localStorage.setItem(ACTIVE_KEY, id);
+  else window.localStorage.removeItem(ACTIVE_KEY);
+  notify();
+}
+
+/**
+ * Insert or replace a camera (matched by id) and make it active.
+ */
+export function saveCamera(camera: CameraProfile): void {
+  const cameras = loadCameras().filter(c => c.id !== camera.id);
+  storeCameras([...cameras, camera]);
+  setActiveCamera(camera.id);
+}
+
+export function deleteCamera(id: string): void {
+  storeCameras(loadCameras().filter(c => c.id !== id));
+  if (window.localStorage.getItem(ACTIVE_KEY) === id) window.localStorage.removeItem(ACTIVE_KEY);
+  notify();
+}
@@ -0,0 +1,130 @@
+import type { Point, ContourIssue, ContourIssueKind } from './types';
+
+const MIN_EDGE_PX = 1e-3; // shorter edges are treated as zero-length
+const MAX_UNTANGLE_PASSES = 1000;
+
+function cross(ax: number, ay: number, bx: number, by: number): number {
+  return ax * by - ay * bx;
+}
+
+function samePoint(a: Point, b: Point): boolean {
+  return Math.hypot(a.x - b.x, a.y - b.y) < MIN_EDGE_PX;
+}
+
+// Where segments a→b and c→d meet (touching counts), or null
+function segmentContact(a: Point, b: Point, c: Point, d: Point): Point | null {
+  const rx = b.x - a.x, ry = b.y - a.y;
+  const sx = d.x - c.x, sy = d.y - c.y;
+  const qx = c.x - a.x, qy = c.y - a.y;
+  const denom = cross(rx, ry, sx, sy);
+  if (denom === 0) {
+    // Parallel: only collinear segments can overlap
+    if (cross(qx, qy, rx, ry) !== 0) return null;
+    const rr = rx * rx + ry * ry;
+    if (rr === 0) return null;
+    const t0 = (qx * rx + qy * ry) / rr;
+    const t1 = ((d.x - a.x) * rx + (d.y - a.y) * ry) / rr;
+    const lo = Math.max(0, Math.min(t0, t1)), hi = Math.min(1, Math.max(t0, t1));
+    if (lo > hi) return null;
+    const t = (lo + hi) / 2;
+    return { x: a.x + t * rx, y: a.y + t * ry };
+  }
+  const t = cross(qx, qy, sx, sy) / denom;
+  const u = cross(qx, qy, rx, ry) / denom;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+  return { x: a.x + t * rx, y: a.y + t * ry };
+}
+
+// First pair of non-neighbouring edges that meet, as edge start indices
+function findCrossing(points: Point[]): { i: number; j: number; at: Point } | null {
+  const n = points.length;
+  for (let i = 0; i < n; i++) {
+    const a = points[i], b = points[(i + 1) % n];
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue; // neighbours through the wrap
+      const at = segmentContact(a, b, points[j], points[(j + 1) % n]);
+      if (at) return { i, j, at };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a closed outline for problems that break the exports: edges that
+ * cross or touch (a figure-eight makes a non-manifold STL and a path the
+ * laser cuts twice), vertices used twice, and zero-length edges.
+ */
+export function validateContour(points: Point[]): ContourIssue[] {
+  const n = points.length;
+  const issues: ContourIssue[] = [];
+  const add = (kind: ContourIssueKind, at: Point) => issues.push({ kind, at });
+
+  for (let i = 0; i < n; i++) {
+    if (samePoint(points[i], points[(i + 1) % n])) add('zero-length-edge', points[i]);
+  }
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      if (samePoint(points[i], points[j])) add('duplicate-vertex', points[i]);
+    }
+  }
+
+  // Edges next to a zero-length edge or a duplicate vertex touch trivially;
+  // only report crossings between edges with real length
+  for (let i = 0; i < n; i++) {
+    const a = points[i], b = points[(i + 1) % n];
+    if (samePoint(a, b)) continue;
+    const minX = Math.min(a.x, b.x), maxX = Math.max(a.x, b.x);
+    const minY = Math.min(a.y, b.y), maxY = Math.max(a.y, b.y);
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      const c = points[j], d = points[(j + 1) % n];
+      if (samePoint(c, d)) continue;
+      if (Math.max(c.x, d.x) < minX || Math.min(c.x, d.x) > maxX) continue;
+      if (Math.max(c.y, d.y) < minY || Math.min(c.y, d.y) > maxY) continue;
+      const at = segmentContact(a, b, c, d);
+      if (!at) continue;
+      // Touching at a shared (duplicate) vertex is already reported above
+      if ([a, b].some(p => samePoint(p, at)) && [c, d].some(p => samePoint(p, at))) continue;
+      add('self-intersection', at);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Short summary of the issues, e.g. "2 self-intersections, 1 duplicate vertex".
+ */
+export function describeContourIssues(issues: ContourIssue[]): string {
+  const labels: Record<ContourIssueKind, [string, string]> = {
+    'self-intersection': ['self-intersection', 'self-intersections'],
+    'duplicate-vertex': ['duplicate vertex', 'duplicate vertices'],
+    'zero-length-edge': ['zero-length edge', 'zero-length edges'],
+  };
+  return (Object.keys(labels) as ContourIssueKind[])
+    .map(kind => {
+      const count = issues.filter(i => i.kind === kind).length;
+      return count ? `${count} ${labels[kind][count === 1 ? 0 : 1]}` : '';
+    })
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Repair an outline: drop zero-length edges and repeated vertices, then
+ * uncross it by reversing the stretch between each pair of crossing edges
+ * (a 2-opt move, which turns a figure-eight back into a simple loop without
+ * moving any points).
+ */
+export function repairContour(points: Point[]): Point[] {
+  // Keep the first visit to each position
+  let pts = points.filter((p, i) => !points.slice(0, i).some(q => samePoint(p, q)));
+
+  for (let pass = 0; pass < MAX_UNTANGLE_PASSES && pts.length >= 4; pass++) {
+    const crossing = findCrossing(pts);
+    if (!crossing) break;
+    const { i, j } = crossing;
+    pts = [...pts.slice(0, i + 1), ...pts.slice(i + 1, j + 1).reverse(), ...pts.slice(j + 1)];
+  }
+  return pts;
+}
@@ -1,37 +1,5 @@
-import type { Point, Contour, ContourCandidate, ProcessingParams } from './types';
-import { loadOpenCV, getCv, safeDelete, imageToCanvas, getImageScale } from './opencv-loader';
-
-// outline-app style settings
-const MIN_CONTOUR_AREA_RATIO = 0.001; // Min 0.1% of image area (catch smaller objects)
-const MAX_CONTOUR_AREA_RATIO = 0.95; // Max 95% of image area
-const PAPER_AREA_THRESHOLD = 0.25; // Contours > 25% of image are likely paper
-
-// Calculate IoU of two contours using bounding boxes
-function calculateBoundingBoxIoU(contourA: Point[], contourB: Point[]): number {
-  const getBounds = (pts: Point[]) => ({
-    minX: Math.min(...pts.map(p => p.x)),
-    minY: Math.min(...pts.map(p => p.y)),
-    maxX: Math.max(...pts.map(p => p.x)),
-    maxY: Math.max(...pts.map(p => p.y))
-  });
-  
-  const a = getBounds(contourA);
-  const b = getBounds(contourB);
-  
-  const interMinX = Math.max(a.minX, b.minX);
-  const interMinY = Math.max(a.minY, b.minY);
-  const interMaxX = Math.min(a.maxX, b.maxX);
-  const interMaxY = Math.min(a.maxY, b.maxY);
-  
-  if (interMinX >= interMaxX || interMinY >= interMaxY) return 0;
-  
-  const interArea = (interMaxX - interMinX) * (interMaxY - interMinY);
-  const areaA = (a.maxX - a.minX) * (a.maxY - a.minY);
-  const areaB = (b.maxX - b.minX) * (b.maxY - b.minY);
-  const unionArea = areaA + areaB - interArea;
-  
-  return interArea / unionArea;
-}
+import type { Point, Contour, ContourCandidate, ProcessingParams, BrushStroke } from './types';
+import { runCvJob, imageToBitmap, MAX_PROCESS_DIM, type CvJobOptions } from './opencv-client';
 
 // Check if a point is inside a polygon
 export function pointInPolygon(point: Point, polygon: Point[]): boolean {
@@ -47,247 +15,102 @@ export function pointInPolygon(point: Point, polygon: Point[]): boolean {
   return inside;
 }
 
-// Smooth contour using percentage of arc length (outline-app style)
-// Lower percentage = more aggressive smoothing
-function smoothContour(cv: any, contour: any, maxDeviationPercent = 0.001): any {
-  const smooth = new cv.Mat();
-  const accuracy = maxDeviationPercent * cv.arcLength(contour, true);
-  cv.approxPolyDP(contour, smooth, accuracy, true);
-  return smooth;
-}
-
-// Check if contour is top-level (no parent) - outline-app style
-function isTopLevelContour(i: number, hierarchy: any): boolean {
-  const hierarchyValue = hierarchy.intPtr(0, i);
-  if (hierarchyValue.length >= 4) {
-    return hierarchyValue[3] === -1; // parent index == -1
-  }
-  return true;
-}
-
-// Detect contours using outline-app's approach
+// Detect contours using outline-app's approach, on the detection worker.
+// `paperRegion` (image pixels) is where colour segmentation samples the paper
+// colour and looks for objects; without it the whole image is used.
 export async function detectAllContours(
-  imageElement: HTMLImageElement
+  imageElement: HTMLImageElement | HTMLCanvasElement,
+  params: ProcessingParams = getDefaultProcessingParams(),
+  paperRegion?: Point[],
+  options: CvJobOptions = {}
 ): Promise<ContourCandidate[]> {
   console.log('[contour] detectAllContours starting...');
-  await loadOpenCV();
-  const cv = getCv();
-  console.log('[contour] OpenCV ready');
-
-  const canvas = imageToCanvas(imageElement);
-  const scale = 1 / getImageScale(imageElement);
-  const imageArea = canvas.width * canvas.height;
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let src: any, gray: any;
-
-  try {
-    src = cv.imread(canvas);
-    gray = new cv.Mat();
-    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
-
-    const allContours: { contour: Point[]; area: number; method: string }[] = [];
-
-    // Method 1: Canny edge (outline-app style: higher thresholds)
-    console.log('[contour] Running Canny edge detection...');
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let cannyEdges: any, cannyContours: any, cannyHierarchy: any;
-    try {
-      // Bigger blur for smoother edges (15px like outline-app)
-      const blurred = new cv.Mat();
-      cv.GaussianBlur(gray, blurred, new cv.Size(15, 15), 0);
-      
-      cannyEdges = new cv.Mat();
-      cv.Canny(blurred, cannyEdges, 50, 150); // Medium thresholds (not too high, not too low)
-
-      cannyContours = new cv.MatVector();
-      cannyHierarchy = new cv.Mat();
-      // Use RETR_TREE to get hierarchy, TC89_L1 for better edge following
-      cv.findContours(cannyEdges, cannyContours, cannyHierarchy, cv.RETR_TREE, cv.CHAIN_APPROX_TC89_L1);
-      
-      console.log(`[contour] Canny found ${cannyContours.size()} contours`);
-      
-      for (let i = 0; i < cannyContours.size(); i++) {
-        // Only top-level contours (outline-app style)
-        if (!isTopLevelContour(i, cannyHierarchy)) continue;
-        
-        const contour = cannyContours.get(i);
-        const area = cv.contourArea(contour);
-        
-        if (area >= imageArea * MIN_CONTOUR_AREA_RATIO && 
-            area <= imageArea * MAX_CONTOUR_AREA_RATIO) {
-          // Smooth with 0.2% of perimeter (outline-app style)
-          const smoothed = smoothContour(cv, contour, 0.001);
-          
-          const points: Point[] = [];
-          for (let j = 0; j < smoothed.rows; j++) {
-            points.push({
-              x: Math.round(smoothed.data32S[j * 2] * scale),
-              y: Math.round(smoothed.data32S[j * 2 + 1] * scale)
-            });
-          }
-          safeDelete(smoothed);
-          
-          if (points.length >= 3) {
-            allContours.push({ contour: points, area: area * scale * scale, method: 'canny' });
-          }
-        }
-      }
-      safeDelete(blurred);
-    } finally {
-      safeDelete(cannyEdges, cannyContours, cannyHierarchy);
-    }
-
-    // Method 2: Adaptive threshold (outline-app style: smaller block, lower C)
-    console.log('[contour] Running adaptive threshold...');
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let adaptiveThresh: any, adaptiveContours: any, adaptiveHierarchy: any;
-    try {
-      // Bilateral filter first (edge-preserving smoothing)
-      const bilateral = new cv.Mat();
-      cv.bilateralFilter(gray, bilateral, 9, 75, 75);
-      
-      adaptiveThresh = new cv.Mat();
-      cv.adaptiveThreshold(
-        bilateral,
-        adaptiveThresh,
-        255,
-        cv.ADAPTIVE_THRESH_GAUSSIAN_C,
-        cv.THRESH_BINARY_INV,
-        7,  // Smaller block size (was 21)
-        2   // Lower C (was 5)
-      );
-
-      adaptiveContours = new cv.MatVector();
-      adaptiveHierarchy = new cv.Mat();
-      cv.findContours(adaptiveThresh, adaptiveContours, adaptiveHierarchy, cv.RETR_TREE, cv.CHAIN_APPROX_TC89_L1);
-
-      console.log(`[contour] Adaptive threshold found ${adaptiveContours.size()} contours`);
-
-      for (let i = 0; i < adaptiveContours.size(); i++) {
-        if (!isTopLevelContour(i, adaptiveHierarchy)) continue;
-        
-        const contour = adaptiveContours.get(i);
-        const area = cv.contourArea(contour);
-
-        if (area >= imageArea * MIN_CONTOUR_AREA_RATIO && 
-            area <= imageArea * MAX_CONTOUR_AREA_RATIO) {
-          const smoothed = smoothContour(cv, contour, 0.001);
-          
-          const points: Point[] = [];
-          for (let j = 0; j < smoothed.rows; j++) {
-            points.push({
-              x: Math.round(smoothed.data32S[j * 2] * scale),
-              y: Math.round(smoothed.data32S[j * 2 + 1] * scale)
-            });
-          }
-          safeDelete(smoothed);
-
-          if (points.length >= 3) {
-            allContours.push({ contour: points, area: area * scale * scale, method: 'adaptive' });
-          }
-        }
-      }
-      safeDelete(bilateral);
-    } finally {
-      safeDelete(adaptiveThresh, adaptiveContours, adaptiveHierarchy);
-    }
-
-    // Method 3: Binary threshold with OTSU (fallback)
-    console.log('[contour] Running binary threshold (OTSU)...');
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let binaryThresh: any, binaryContours: any, binaryHierarchy: any;
-    try {
-      const blurred = new cv.Mat();
-      cv.GaussianBlur(gray, blurred, new cv.Size(5, 5), 0);
-      
-      binaryThresh = new cv.Mat();
-      cv.threshold(blurred, binaryThresh, 0, 255, cv.THRESH_BINARY_INV + cv.THRESH_OTSU);
-
-      binaryContours = new cv.MatVector();
-      binaryHierarchy = new cv.Mat();
-      cv.findContours(binaryThresh, binaryContours, binaryHierarchy, cv.RETR_TREE, cv.CHAIN_APPROX_SIMPLE);
-
-      console.log(`[contour] Binary threshold found ${binaryContours.size()} contours`);
-
-      for (let i = 0; i < binaryContours.size(); i++) {
-        if (!isTopLevelContour(i, binaryHierarchy)) continue;
-        
-        const contour = binaryContours.get(i);
-        const area = cv.contourArea(contour);
-
-        if (area >= imageArea * MIN_CONTOUR_AREA_RATIO && 
-            area <= imageArea * MAX_CONTOUR_AREA_RATIO) {
-          const smoothed = smoothContour(cv, contour, 0.001);
-          
-          const points: Point[] = [];
-          for (let j = 0; j < smoothed.rows; j++) {
-            points.push({
-              x: Math.round(smoothed.data32S[j * 2] * scale),
-              y: Math.round(smoothed.data32S[j * 2 + 1] * scale)
-            });
-          }
-          safeDelete(smoothed);
-
-          if (points.length >= 3) {
-            allContours.push({ contour: points, area: area * scale * scale, method: 'binary' });
-          }
-        }
-      }
-      safeDelete(blurred);
-    } finally {
-      safeDelete(binaryThresh, binaryContours, binaryHierarchy);
-    }
-
-    console.log(`[contour] Total contours before dedupe: ${allContours.length}`);
+  const { image, scale } = await imageToBitmap(imageElement);
+  // Sub-pixel refinement reads edges from the photo at its own resolution
+  const fullImage = params.subpixel.enabled ? (await imageToBitmap(imageElement, Infinity)).image : undefined;
+  return runCvJob({ kind: 'contours', image, fullImage, scale, params, paperRegion }, options);
+}
 
-    // Deduplicate: remove overlapping contours (IoU > 0.5)
-    const uniqueContours: typeof allContours = [];
-    for (const candidate of allContours) {
-      let isDuplicate = false;
-      for (const existing of uniqueContours) {
-        const iou = calculateBoundingBoxIoU(candidate.contour, existing.contour);
-        if (iou > 0.5) {
-          isDuplicate = true;
-          // Keep the one with more points
-          if (candidate.contour.length > existing.contour.length) {
-            existing.contour = candidate.contour;
-            existing.area = candidate.area;
-            existing.method = candidate.method;
-          }
-          break;
-        }
-      }
-      if (!isDuplicate) {
-        uniqueContours.push(candidate);
-      }
-    }
+// The image as detection sees it after lighting correction, downsized like detection
+export async function previewLighting(
+  imageElement: HTMLImageElement,
+  settings: ProcessingParams['lighting'],
+  options: CvJobOptions = {}
+): Promise<HTMLCanvasElement> {
+  const { image } = await imageToBitmap(imageElement);
+  const corrected = await runCvJob({ kind: 'lighting', image, settings }, options);
 
-    console.log(`[contour] Total contours after dedupe: ${uniqueContours.length}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = corrected.width;
+  canvas.height = corrected.height;
+  canvas.getContext('2d')!.putImageData(corrected, 0, 0);
+  return canvas;
+}
 
-    // Classify as paper or object
-    const candidates: ContourCandidate[] = uniqueContours.map(c => {
-      const isPaper = c.area > imageArea * scale * scale * PAPER_AREA_THRESHOLD;
-      return {
-        points: c.contour,
-        area: c.area,
-        isPaper,
-        detectionMethod: c.method as 'canny' | 'adaptive' | 'binary'
-      };
-    });
+// Re-cut an object with GrabCut, seeded by its current outline (image pixels)
+export async function refineContour(
+  imageElement: HTMLImageElement,
+  outline: Point[],
+  epsilon: number = getDefaultProcessingParams().epsilon,
+  options: CvJobOptions = {}
+): Promise<Point[] | null> {
+  const { image, scale } = await imageToBitmap(imageElement);
+  return runCvJob({ kind: 'grabcut', image, scale, outline, epsilon }, options);
+}
 
-    // Sort by area descending
-    candidates.sort((a, b) => b.area - a.area);
+// Cut out the object around clicked seeds (image pixels); see segmentFromSeeds
+export async function segmentFromClicks(
+  imageElement: HTMLImageElement,
+  foreground: Point[],
+  background: Point[],
+  paperRegion?: Point[],
+  epsilon: number = getDefaultProcessingParams().epsilon,
+  options: CvJobOptions = {}
+): Promise<Point[] | null> {
+  const { image, scale } = await imageToBitmap(imageElement);
+  return runCvJob({ kind: 'segment', image, scale, foreground, background, paperRegion, epsilon }, options);
+}
 
-    console.log(`[contour] Final candidates: ${candidates.length} (papers: ${candidates.filter(c => c.isPaper).length})`);
-    
-    return candidates;
-  } catch (err) {
-    console.error('[contour] ERROR in detectAllContours:', err);
-    throw err;
-  } finally {
-    safeDelete(src, gray);
-  }
+// Apply a brush stroke to an outline (image pixels): the outline is filled into a
+// mask at detection resolution, the stroke painted over it, and the mask traced again
+export async function paintOutline(
+  imageElement: HTMLImageElement,
+  outline: Point[],
+  stroke: BrushStroke,
+  epsilon: number = getDefaultProcessingParams().epsilon,
+  options: CvJobOptions = {}
+): Promise<Point[] | null> {
+  const w = imageElement.naturalWidth || imageElement.width;
+  const h = imageElement.naturalHeight || imageElement.height;
+  const fit = Math.min(1, MAX_PROCESS_DIM / Math.max(w, h));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(w * fit);
+  canvas.height = Math.round(h * fit);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(fit, fit);
+
+  ctx.fillStyle = '#fff';
+  ctx.beginPath();
+  outline.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.closePath();
+  ctx.fill();
+
+  const [first, ...rest] = stroke.points;
+  ctx.fillStyle = ctx.strokeStyle = stroke.erase ? '#000' : '#fff';
+  ctx.beginPath();
+  ctx.arc(first.x, first.y, stroke.radius, 0, Math.PI * 2); // a click without a drag
+  ctx.fill();
+  ctx.lineWidth = stroke.radius * 2;
+  ctx.lineCap = ctx.lineJoin = 'round';
+  ctx.beginPath();
+  ctx.moveTo(first.x, first.y);
+  rest.forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.stroke();
+
+  const image = await createImageBitmap(canvas);
+  return runCvJob({ kind: 'mask', image, scale: 1 / fit, epsilon }, options);
 }
 
 // Legacy detectContour function
@@ -306,7 +129,7 @@ export async function detectContour(
     imageElement = img;
   }
 
-  const candidates = await detectAllContours(imageElement);
+  const candidates = await detectAllContours(imageElement, params);
   
   const objectCandidates = candidates.filter(c => !c.isPaper);
   
@@ -401,96 +224,24 @@ export function drawContoursOnCanvas(
   });
 }
 
-// Offset a contour along normals
-export function offsetContour(points: Point[], offsetPx: number): Point[] {
-  if (points.length < 3 || offsetPx === 0) return points;
-
-  const n = points.length;
-  const result: Point[] = [];
-
-  for (let i = 0; i < n; i++) {
-    const prev = points[i === 0 ? n - 1 : i - 1];
-    const curr = points[i];
-    const next = points[i === n - 1 ? 0 : i + 1];
-
-    const dx1 = curr.x - prev.x, dy1 = curr.y - prev.y;
-    const len1 = Math.sqrt(dx1 * dx1 + dy1 * dy1) || 1;
-    const nx1 = -dy1 / len1, ny1 = dx1 / len1;
-
-    const dx2 = next.x - curr.x, dy2 = next.y - curr.y;
-    const len2 = Math.sqrt(dx2 * dx2 + dy2 * dy2) || 1;
-    const nx2 = -dy2 / len2, ny2 = dx2 / len2;
-
-    let nx = (nx1 + nx2) / 2;
-    let ny = (ny1 + ny2) / 2;
-    const normalLen = Math.sqrt(nx * nx + ny * ny) || 1;
-    nx /= normalLen;
-    ny /= normalLen;
-
-    result.push({
-      x: Math.round(curr.x + nx * offsetPx),
-      y: Math.round(curr.y + ny * offsetPx),
-    });
-  }
-
-  return result;
-}
-
-// Perspective warp
+// Perspective warp, on the detection worker
 export async function warpPerspective(
   imageElement: HTMLImageElement,
   srcCorners: Point[],
   destWidth: number,
-  destHeight: number
+  destHeight: number,
+  options: CvJobOptions = {}
 ): Promise<HTMLCanvasElement> {
-  await loadOpenCV();
-  const cv = getCv();
-
-  const sorted = sortCorners(srcCorners);
-
-  const srcMat = cv.matFromArray(4, 1, cv.CV_32FC2, [
-    sorted[0].x, sorted[0].y,
-    sorted[1].x, sorted[1].y,
-    sorted[2].x, sorted[2].y,
-    sorted[3].x, sorted[3].y,
-  ]);
-
-  const dstMat = cv.matFromArray(4, 1, cv.CV_32FC2, [
-    0, 0,
-    destWidth, 0,
-    destWidth, destHeight,
-    0, destHeight,
-  ]);
-
-  const transformMatrix = cv.getPerspectiveTransform(srcMat, dstMat);
-  const src = cv.imread(imageElement);
-  const warped = new cv.Mat();
-
-  cv.warpPerspective(src, warped, transformMatrix, { width: destWidth, height: destHeight });
+  const { image } = await imageToBitmap(imageElement, Infinity);
+  const warped = await runCvJob({ kind: 'warp', image, corners: srcCorners, width: destWidth, height: destHeight }, options);
 
   const canvas = document.createElement('canvas');
   canvas.width = destWidth;
   canvas.height = destHeight;
-  cv.imshow(canvas, warped);
-
-  safeDelete(src, warped, srcMat, dstMat, transformMatrix);
-
+  canvas.getContext('2d')!.putImageData(warped, 0, 0);
   return canvas;
 }
 
-// Sort corners: TL, TR, BR, BL
-function sortCorners(corners: Point[]): Point[] {
-  const sorted = [...corners].sort((a, b) => {
-    if (Math.abs(a.y - b.y) > 10) return a.y - b.y;
-    return a.x - b.x;
-  });
-
-  const top = sorted.slice(0, 2).sort((a, b) => a.x - b.x);
-  const bottom = sorted.slice(2).sort((a, b) => a.x - b.x);
-
-  return [top[0], top[1], bottom[1], bottom[0]];
-}
-
 // Simplify contour using RDP
 export function simplifyContour(points: Point[], tolerance: number): Point[] {
   if (points.length <= 3) return points;
@@ -532,9 +283,12 @@ export function simplifyContour(points: Point[], tolerance: number): Point[] {
 
 export function getDefaultProcessingParams(): ProcessingParams {
   return {
-    blurKernel: 15,    // outline-app style
-    cannyLow: 100,     // outline-app style
-    cannyHigh: 200,    // outline-app style
-    epsilon: 0.002     // 0.2% of perimeter
+    canny: { enabled: true, blurKernel: 15, low: 50, high: 150 }, // big blur like outline-app, medium thresholds
+    adaptive: { enabled: true, bilateralDiameter: 9, blockSize: 7, c: 2 }, // small block, low C
+    binary: { enabled: true, blurKernel: 5 },
+    color: { enabled: false, space: 'lab', threshold: 8, blurKernel: 5 }, // opt-in: grey or coloured parts on paper
+    lighting: { enabled: false, backgroundScale: 0.05, suppressShadows: false, shadowLevel: 0.6 },
+    subpixel: { enabled: true, searchRadius: 2 },
+    epsilon: 0.001 // 0.1% of perimeter
   };
 }
\ No newline at end of file
@@ -0,0 +1,258 @@
+import type { Point } from './types';
+
+// One piece of a fitted outline, running on from where the previous one ended.
+// Arc sweeps are signed radians in the points' own axes (positive = increasing atan2 angle).
+export type PathSegment =
+  | { kind: 'line'; to: Point }
+  | { kind: 'arc'; to: Point; center: Point; radius: number; sweep: number }
+  | { kind: 'cubic'; c1: Point; c2: Point; to: Point };
+
+export interface FittedPath {
+  start: Point;
+  segments: PathSegment[]; // the last one ends back at start
+}
+
+const MAX_ARC_RADIUS = 1e5; // flatter than this is a line
+const REPARAMETERIZE_PASSES = 2;
+
+type Vec = { x: number; y: number };
+
+const sub = (a: Vec, b: Vec): Vec => ({ x: a.x - b.x, y: a.y - b.y });
+const dist = (a: Vec, b: Vec) => Math.hypot(a.x - b.x, a.y - b.y);
+const mid = (a: Vec, b: Vec): Vec => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+function unit(v: Vec): Vec {
+  const len = Math.hypot(v.x, v.y) || 1;
+  return { x: v.x / len, y: v.y / len };
+}
+
+// Polyline vertices plus edge midpoints, so a curve can't wander off between samples
+function samples(run: Point[]): Point[] {
+  const out: Point[] = [run[0]];
+  for (let k = 1; k < run.length; k++) out.push(mid(run[k - 1], run[k]), run[k]);
+  return out;
+}
+
+function distanceToSegment(p: Vec, a: Vec, b: Vec): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2));
+  return Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy);
+}
+
+function fitLine(run: Point[], tol: number): PathSegment | null {
+  const a = run[0], b = run[run.length - 1];
+  for (let k = 1; k < run.length - 1; k++) {
+    if (distanceToSegment(run[k], a, b) > tol) return null;
+  }
+  return { kind: 'line', to: b };
+}
+
+// Circle through the two ends and the middle point, checked against every sample
+function fitArc(run: Point[], tol: number): PathSegment | null {
+  if (run.length < 3) return null;
+  const a = run[0], m = run[run.length >> 1], b = run[run.length - 1];
+  const d = 2 * (a.x * (m.y - b.y) + m.x * (b.y - a.y) + b.x * (a.y - m.y));
+  if (Math.abs(d) < 1e-12) return null;
+  const a2 = a.x * a.x + a.y * a.y, m2 = m.x * m.x + m.y * m.y, b2 = b.x * b.x + b.y * b.y;
+  const center = {
+    x: (a2 * (m.y - b.y) + m2 * (b.y - a.y) + b2 * (a.y - m.y)) / d,
+    y: (a2 * (b.x - m.x) + m2 * (a.x - b.x) + b2 * (m.x - a.x)) / d,
+  };
+  const radius = dist(a, center);
+  if (radius > MAX_ARC_RADIUS) return null;
+
+  // Direction of travel from the a→m→b turn; every sample must sit on the swept part
+  const dir = (m.x - a.x) * (b.y - m.y) - (m.y - a.y) * (b.x - m.x) > 0 ? 1 : -1;
+  const startAngle = Math.atan2(a.y - center.y, a.x - center.x);
+  const along = (p: Vec) => {
+    const ang = dir * (Math.atan2(p.y - center.y, p.x - center.x) - startAngle);
+    return ((ang % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+  };
+  const sweep = along(b);
+  for (const p of samples(run)) {
+    if (Math.abs(dist(p, center) - radius) > tol) return null;
+    if (p !== a && p !== b && along(p) > sweep) return null;
+  }
+  return { kind: 'arc', to: b, center, radius, sweep: dir * sweep };
+}
+
+function bezier(p0: Vec, c1: Vec, c2: Vec, p3: Vec, t: number): Vec {
+  const s = 1 - t;
+  const w0 = s * s * s, w1 = 3 * s * s * t, w2 = 3 * s * t * t, w3 = t * t * t;
+  return { x: w0 * p0.x + w1 * c1.x + w2 * c2.x + w3 * p3.x, y: w0 * p0.y + w1 * c1.y + w2 * c2.y + w3 * p3.y };
+}
+
+// Least-squares cubic with fixed ends and end tangents (Schneider's method)
+function cubicThrough(run: Point[], u: number[], t1: Vec, t2: Vec): { c1: Vec; c2: Vec } {
+  const p0 = run[0], p3 = run[run.length - 1];
+  let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+  run.forEach((p, k) => {
+    const t = u[k], s = 1 - t;
+    const b1 = 3 * s * s * t, b2 = 3 * s * t * t;
+    const a1 = { x: t1.x * b1, y: t1.y * b1 };
+    const a2 = { x: t2.x * b2, y: t2.y * b2 };
+    c00 += a1.x * a1.x + a1.y * a1.y;
+    c01 += a1.x * a2.x + a1.y * a2.y;
+    c11 += a2.x * a2.x + a2.y * a2.y;
+    const base = bezier(p0, p0, p3, p3, t);
+    const r = sub(p, base);
+    x0 += a1.x * r.x + a1.y * r.y;
+    x1 += a2.x * r.x + a2.y * r.y;
+  });
+  const det = c00 * c11 - c01 * c01;
+  const chord = dist(p0, p3);
+  let alpha1 = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alpha2 = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+  // Degenerate or backwards handles: fall back to a third of the chord
+  if (alpha1 < chord * 1e-6 || alpha2 < chord * 1e-6) alpha1 = alpha2 = chord / 3;
+  return {
+    c1: { x: p0.x + t1.x * alpha1, y: p0.y + t1.y * alpha1 },
+    c2: { x: p3.x + t2.x * alpha2, y: p3.y + t2.y * alpha2 },
+  };
+}
+
+// One Newton step towards the parameter of the closest curve point
+function reparameterize(p0: Vec, c1: Vec, c2: Vec, p3: Vec, p: Vec, t: number): number {
+  const s = 1 - t;
+  const q = bezier(p0, c1, c2, p3, t);
+  const d1 = {
+    x: 3 * (s * s * (c1.x - p0.x) + 2 * s * t * (c2.x - c1.x) + t * t * (p3.x - c2.x)),
+    y: 3 * (s * s * (c1.y - p0.y) + 2 * s * t * (c2.y - c1.y) + t * t * (p3.y - c2.y)),
+  };
+  const d2 = {
+    x: 6 * (s * (c2.x - 2 * c1.x + p0.x) + t * (p3.x - 2 * c2.x + c1.x)),
+    y: 6 * (s * (c2.y - 2 * c1.y + p0.y) + t * (p3.y - 2 * c2.y + c1.y)),
+  };
+  const diff = sub(q, p);
+  const num = diff.x * d1.x + diff.y * d1.y;
+  const den = d1.x * d1.x + d1.y * d1.y + diff.x * d2.x + diff.y * d2.y;
+  return den === 0 ? t : Math.max(0, Math.min(1, t - num / den));
+}
+
+// End tangents come from the run itself, so a corner at either end stays sharp
+function fitCubic(run: Point[], tol: number): PathSegment | null {
+  if (run.length < 4) return null;
+  const n = run.length;
+  const p0 = run[0], p3 = run[n - 1];
+  const t1 = unit(sub(run[Math.min(2, n - 1)], p0));
+  const t2 = unit(sub(run[Math.max(n - 3, 0)], p3));
+
+  const lengths = [0];
+  for (let k = 1; k < n; k++) lengths.push(lengths[k - 1] + dist(run[k - 1], run[k]));
+  const total = lengths[n - 1];
+  if (total === 0) return null;
+  let u = lengths.map(l => l / total);
+
+  for (let pass = 0; ; pass++) {
+    const { c1, c2 } = cubicThrough(run, u, t1, t2);
+    let worst = 0;
+    for (let k = 0; k < n; k++) {
+      worst = Math.max(worst, dist(bezier(p0, c1, c2, p3, u[k]), run[k]));
+      if (k > 0) worst = Math.max(worst, dist(bezier(p0, c1, c2, p3, (u[k - 1] + u[k]) / 2), mid(run[k - 1], run[k])));
+    }
+    if (worst <= tol) return { kind: 'cubic', c1, c2, to: p3 };
+    // Only worth refining if it's already close
+    if (pass >= REPARAMETERIZE_PASSES || worst > tol * 4) return null;
+    u = u.map((t, k) => reparameterize(p0, c1, c2, p3, run[k], t));
+  }
+}
+
+interface Fitter {
+  fit: (run: Point[], tol: number) => PathSegment | null;
+  minPoints: number;
+}
+
+// In order of preference when two reach equally far
+const FITTERS: Fitter[] = [
+  { fit: fitLine, minPoints: 2 },
+  { fit: fitArc, minPoints: 3 },
+  { fit: fitCubic, minPoints: 4 },
+];
+
+// Longest run from `from` that `fit` accepts: double the reach until it fails, then bisect
+function longestFit(
+  ring: Point[],
+  from: number,
+  limit: number,
+  fitter: Fitter,
+  tol: number
+): { end: number; segment: PathSegment } | null {
+  const attempt = (end: number) => fitter.fit(ring.slice(from, end + 1), tol);
+  let good = -1;
+  let goodSegment: PathSegment | null = null;
+  let step = fitter.minPoints - 1;
+  let end = from + step;
+  while (end <= limit) {
+    const segment = attempt(end);
+    if (!segment) break;
+    good = end;
+    goodSegment = segment;
+    if (end === limit) return { end, segment };
+    step *= 2;
+    end = Math.min(limit, from + step);
+  }
+  if (good === -1) return null;
+  let lo = good, hi = Math.min(end, limit);
+  while (hi - lo > 1) {
+    const m = (lo + hi) >> 1;
+    const segment = attempt(m);
+    if (segment) { lo = m; goodSegment = segment; } else hi = m;
+  }
+  return goodSegment && { end: lo, segment: goodSegment };
+}
+
+// Vertex where the outline turns hardest, so the seam lands on a corner when there is one
+function sharpestVertex(points: Point[]): number {
+  let best = 0, bestTurn = -1;
+  points.forEach((p, i) => {
+    const a = points[(i - 1 + points.length) % points.length], b = points[(i + 1) % points.length];
+    const u = unit(sub(p, a)), v = unit(sub(b, p));
+    const turn = 1 - (u.x * v.x + u.y * v.y);
+    if (turn > bestTurn) { bestTurn = turn; best = i; }
+  });
+  return best;
+}
+
+// Arcs over half a turn become two halves: DXF bulges blow up towards a full
+// circle and SVG's large-arc flag gets ambiguous near it
+function splitLongArc(from: Point, s: PathSegment): PathSegment[] {
+  if (s.kind !== 'arc' || Math.abs(s.sweep) <= Math.PI) return [s];
+  const angle = Math.atan2(from.y - s.center.y, from.x - s.center.x) + s.sweep / 2;
+  const middle = { x: s.center.x + s.radius * Math.cos(angle), y: s.center.y + s.radius * Math.sin(angle) };
+  return [{ ...s, to: middle, sweep: s.sweep / 2 }, { ...s, sweep: s.sweep / 2 }];
+}
+
+/**
+ * Fit a closed polyline with lines, circular arcs and (if allowed) cubic
+ * Béziers that stay within `tolerance` of it, in the points' own units.
+ * Each piece reaches as far along the outline as it can, preferring lines,
+ * then arcs, then cubics; no arc sweeps more than half a turn. A tolerance
+ * of 0 returns the polyline as lines.
+ */
+export function fitPath(points: Point[], tolerance: number, allowCubic = true): FittedPath {
+  const n = points.length;
+  if (n < 3 || tolerance <= 0) {
+    return { start: points[0], segments: points.slice(1).concat(points.slice(0, 1)).map(to => ({ kind: 'line', to })) };
+  }
+
+  // Walk the outline once from its sharpest vertex, ending back on it
+  const first = sharpestVertex(points);
+  const ring = [...points.slice(first), ...points.slice(0, first), points[first]];
+  const fitters = allowCubic ? FITTERS : FITTERS.filter(f => f.fit !== fitCubic);
+
+  const segments: PathSegment[] = [];
+  let from = 0;
+  while (from < n) {
+    let best: { end: number; segment: PathSegment } | null = null;
+    for (const fit of fitters) {
+      const found = longestFit(ring, from, n, fit, tolerance);
+      if (found && (!best || found.end > best.end)) best = found;
+    }
+    // A single edge always fits as a line
+    const next = best ?? { end: from + 1, segment: { kind: 'line', to: ring[from + 1] } as PathSegment };
+    segments.push(...splitLongArc(ring[from], next.segment));
+    from = next.end;
+  }
+  return { start: ring[0], segments };
+}
@@ -0,0 +1,1290 @@
+import type { Point, A4Paper, ContourCandidate, ContourMethod, ProcessingParams } from './types';
+import { safeDelete } from './opencv-loader';
+import { intersectPolygons } from './offset';
+
+// OpenCV processing behind detectPaper, detectAllContours and warpPerspective.
+// Runs inside the detection worker on images sent over as ImageBitmaps.
+
+// outline-app style settings
+const MIN_CONTOUR_AREA_RATIO = 0.001; // Min 0.1% of image area (catch smaller objects)
+const MAX_CONTOUR_AREA_RATIO = 0.95; // Max 95% of image area
+const PAPER_AREA_THRESHOLD = 0.25; // Contours > 25% of image are likely paper
+const DEDUPE_IOU = 0.5; // candidates overlapping more than this outline the same thing
+const EDGE_STRONG = 30; // mean grey levels per pixel across a boundary that counts as a crisp edge
+const BORDER_MARGIN = 0.03; // closer than this to the paper's edge (fraction of the image) costs confidence
+const CONFIDENCE_WEIGHTS = { edge: 0.35, agreement: 0.25, solidity: 0.2, border: 0.2 };
+const PAPER_SAMPLE_INSET = 0.1; // sample the paper colour away from its edges
+const LIGHTING_WORK_SIZE = 256; // background is estimated on a copy this size, then scaled back up
+const SHADOW_MAX_TINT = 0.08; // channel spread (0–1) below which a pixel counts as neutral
+const GRABCUT_ITERATIONS = 5;
+const GRABCUT_MARGIN = 0.15; // paper around the outline used as background, as a fraction of its size
+const GRABCUT_BAND = 0.08; // depth inside the outline that starts out as probable background
+const SEED_RADIUS = 0.005; // clicked seeds are dots this size, as a fraction of the image
+const SUBPIXEL_STEP = 0.25; // sampling step along a vertex normal, in full-resolution pixels
+const SUBPIXEL_MIN_GRADIENT = 4; // grey levels per pixel; weaker edges leave the vertex alone
+const CHECKER_BLOCK = 0.25; // threshold neighbourhood for the checkerboard, as a fraction of the image
+const CHECKER_MIN_AREA = 0.0001; // smallest square, as a fraction of the image
+const CHECKER_MATCH = 0.3; // square corners closer than this (fraction of a side) meet at a grid corner
+const CHECKER_ALIGN = 0.9; // cosine between grid edges that continue a straight row
+const CHECKER_MIN_LINE = 4; // corners a row needs to be worth fitting
+
+export type CvStage =
+  | 'downloading'
+  | 'initializing'
+  | 'reading'
+  | 'lighting'
+  | 'paper'
+  | 'canny'
+  | 'adaptive'
+  | 'binary'
+  | 'color'
+  | 'merging'
+  | 'subpixel'
+  | 'grabcut'
+  | 'watershed'
+  | 'tracing'
+  | 'checkerboard'
+  | 'undistorting'
+  | 'warping';
+
+// `scale` maps the (downsized) bitmap back to the original image's pixels;
+// `fullImage` is the same photo undownsized, for sub-pixel refinement
+export type CvJob =
+  | { kind: 'paper'; image: ImageBitmap; scale: number; targetAspect: number }
+  | {
+      kind: 'contours';
+      image: ImageBitmap;
+      fullImage?: ImageBitmap;
+      scale: number;
+      params: ProcessingParams;
+      paperRegion?: Point[];
+    }
+  | { kind: 'warp'; image: ImageBitmap; corners: Point[]; width: number; height: number }
+  | { kind: 'grabcut'; image: ImageBitmap; scale: number; outline: Point[]; epsilon: number }
+  | {
+      kind: 'segment';
+      image: ImageBitmap;
+      scale: number;
+      foreground: Point[];
+      background: Point[];
+      paperRegion?: Point[];
+      epsilon: number;
+    }
+  | { kind: 'mask'; image: ImageBitmap; scale: number; epsilon: number }
+  | { kind: 'checkerboard'; image: ImageBitmap; scale: number }
+  | { kind: 'undistort'; image: ImageBitmap; k1: number; k2: number }
+  | { kind: 'lighting'; image: ImageBitmap; settings: ProcessingParams['lighting'] };
+
+export interface CvJobResults {
+  paper: A4Paper | null;
+  contours: ContourCandidate[];
+  warp: ImageData;
+  grabcut: Point[] | null;
+  segment: Point[] | null;
+  mask: Point[] | null;
+  checkerboard: Point[][];
+  undistort: ImageData;
+  lighting: ImageData;
+}
+
+export type CvRequest = { type: 'run'; id: number; job: CvJob } | { type: 'cancel'; id: number };
+
+export type CvResponse =
+  | { type: 'progress'; id: number; stage: CvStage }
+  | { type: 'done'; id: number; result: CvJobResults[CvJob['kind']] }
+  | { type: 'error'; id: number; message: string };
+
+// Reports the next stage and throws if the job has been cancelled meanwhile
+export type Checkpoint = (stage: CvStage) => Promise<void>;
+
+// Every bitmap a job carries, to transfer to the worker and close afterwards
+export function jobBitmaps(job: CvJob): ImageBitmap[] {
+  return job.kind === 'contours' && job.fullImage ? [job.image, job.fullImage] : [job.image];
+}
+
+// Decode a transferred bitmap into an RGBA Mat via an OffscreenCanvas
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readImage(cv: any, image: ImageBitmap): any {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+  ctx.drawImage(image, 0, 0);
+  image.close();
+  return cv.matFromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+// Mat (RGBA) back to transferable ImageData
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toImageData(mat: any): ImageData {
+  return new ImageData(new Uint8ClampedArray(mat.data), mat.cols, mat.rows);
+}
+
+// Even out lighting on an RGBA Mat, returning a new one. The background is the
+// image dilated (so dark objects and their shadows drop out) and blurred at
+// `backgroundScale` of its size; dividing by it turns the paper an even white.
+// Shadow suppression then whitens neutral pixels at least `shadowLevel` bright,
+// which catches soft shadows but also light-grey parts, hence its own switch.
+function correctLighting(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  src: any,
+  settings: ProcessingParams['lighting']
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): any {
+  const rgb = new cv.Mat();
+  const small = new cv.Mat();
+  const background = new cv.Mat();
+  const flat = new cv.Mat();
+  const out = new cv.Mat();
+  try {
+    cv.cvtColor(src, rgb, cv.COLOR_RGBA2RGB);
+    const fit = Math.min(1, LIGHTING_WORK_SIZE / Math.max(src.cols, src.rows));
+    cv.resize(rgb, small, new cv.Size(Math.max(1, Math.round(src.cols * fit)), Math.max(1, Math.round(src.rows * fit))), 0, 0, cv.INTER_AREA);
+    const radius = Math.max(1, Math.round(settings.backgroundScale * Math.max(small.cols, small.rows)));
+    const kernel = cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(radius * 2 + 1, radius * 2 + 1));
+    cv.dilate(small, small, kernel);
+    kernel.delete();
+    cv.GaussianBlur(small, small, new cv.Size(0, 0), radius);
+    cv.resize(small, background, new cv.Size(src.cols, src.rows), 0, 0, cv.INTER_LINEAR);
+    cv.divide(rgb, background, flat, 255);
+
+    if (settings.suppressShadows) {
+      const px = flat.data;
+      const level = settings.shadowLevel * 255, tint = SHADOW_MAX_TINT * 255;
+      for (let i = 0; i < px.length; i += 3) {
+        const hi = Math.max(px[i], px[i + 1], px[i + 2]);
+        const lo = Math.min(px[i], px[i + 1], px[i + 2]);
+        if (hi >= level && hi - lo <= tint) px[i] = px[i + 1] = px[i + 2] = 255;
+      }
+    }
+    cv.cvtColor(flat, out, cv.COLOR_RGB2RGBA);
+    return out;
+  } catch (err) {
+    safeDelete(out);
+    throw err;
+  } finally {
+    safeDelete(rgb, small, background, flat);
+  }
+}
+
+function polygonBounds(points: Point[]) {
+  const xs = points.map(p => p.x), ys = points.map(p => p.y);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    area += points[i].x * points[j].y - points[j].x * points[i].y;
+  }
+  return Math.abs(area) / 2;
+}
+
+// Intersection over union of two polygons, from their exact overlap
+function polygonIoU(a: Point[], b: Point[]): number {
+  const boxA = polygonBounds(a), boxB = polygonBounds(b);
+  if (boxA.minX >= boxB.maxX || boxB.minX >= boxA.maxX || boxA.minY >= boxB.maxY || boxB.minY >= boxA.maxY) return 0;
+
+  const intersection = intersectPolygons(a, b).reduce((sum, loop) => sum + polygonArea(loop), 0);
+  const union = polygonArea(a) + polygonArea(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+// Mean gradient magnitude along a polygon (original pixels), sampled about
+// every pixel of the Mat; each sample takes the strongest of its 3×3
+// neighbourhood, since traced boundaries sit a pixel either side of the edge
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function edgeStrength(gradient: any, points: Point[], scale: number): number {
+  const { cols, rows } = gradient;
+  const data: Float32Array = gradient.data32F;
+  let sum = 0, count = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / scale));
+    for (let s = 0; s < steps; s++) {
+      const x = Math.round((a.x + (b.x - a.x) * s / steps) / scale);
+      const y = Math.round((a.y + (b.y - a.y) * s / steps) / scale);
+      let best = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const px = x + dx, py = y + dy;
+          if (px >= 0 && py >= 0 && px < cols && py < rows) best = Math.max(best, data[py * cols + px]);
+        }
+      }
+      sum += best;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+// Area over convex hull area: 1 for convex shapes, low for ragged or merged blobs
+function solidity(points: Point[]): number {
+  // Monotone chain hull
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const half = (pts: Point[]) => {
+    const out: Point[] = [];
+    for (const p of pts) {
+      while (out.length >= 2 && cross(out[out.length - 2], out[out.length - 1], p) <= 0) out.pop();
+      out.push(p);
+    }
+    out.pop();
+    return out;
+  };
+  const hull = [...half(sorted), ...half([...sorted].reverse())];
+  const hullArea = polygonArea(hull);
+  return hullArea > 0 ? Math.min(1, polygonArea(points) / hullArea) : 0;
+}
+
+// Closest any vertex of a polygon comes to the edges of another (the paper)
+function distanceToBorder(points: Point[], border: Point[]): number {
+  let best = Infinity;
+  for (const p of points) {
+    for (let i = 0; i < border.length; i++) {
+      const a = border[i], b = border[(i + 1) % border.length];
+      const dx = b.x - a.x, dy = b.y - a.y;
+      const len2 = dx * dx + dy * dy;
+      const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+      best = Math.min(best, Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy));
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the paper sheet: the biggest roughly rectangular quadrilateral whose
+ * aspect ratio is close to the paper's. Corners come back in the original
+ * image's pixels.
+ */
+export async function findPaper(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  image: ImageBitmap,
+  scale: number,
+  targetAspect: number,
+  checkpoint: Checkpoint
+): Promise<A4Paper | null> {
+  const w = image.width;
+  const h = image.height;
+  console.log('[paper] Processing at', w, 'x', h, '(scale:', scale, ')');
+  if (w === 0 || h === 0) return null;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let src: any, gray: any, blurred: any, edges: any, contours: any, hierarchy: any;
+
+  try {
+    await checkpoint('reading');
+    src = readImage(cv, image);
+
+    await checkpoint('paper');
+    // Convert to grayscale
+    gray = new cv.Mat();
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+
+    // Gaussian blur to reduce noise
+    blurred = new cv.Mat();
+    const ksize = new cv.Size(5, 5);
+    cv.GaussianBlur(gray, blurred, ksize, 0);
+
+    // Canny edge detection
+    edges = new cv.Mat();
+    cv.Canny(blurred, edges, 50, 150);
+
+    // Find contours
+    contours = new cv.MatVector();
+    hierarchy = new cv.Mat();
+    cv.findContours(edges, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+    console.log('[paper] findContours found:', contours.size());
+
+    if (contours.size() === 0) {
+      return null;
+    }
+
+    const totalPixels = w * h;
+
+    let bestContour: Point[] | null = null;
+    let bestScore = 0;
+
+    for (let i = 0; i < contours.size(); i++) {
+      const contour = contours.get(i);
+      const area = cv.contourArea(contour);
+
+      // Skip tiny contours (< 5% of image)
+      if (area < totalPixels * 0.05) continue;
+      // Skip huge contours (> 95% of image)
+      if (area > totalPixels * 0.95) continue;
+
+      // Simplify contour using approxPolyDP
+      const perimeter = cv.arcLength(contour, true);
+      const epsilon = 0.02 * perimeter;
+      const approxCurve = new cv.Mat();
+      cv.approxPolyDP(contour, approxCurve, epsilon, true);
+
+      // Check if it's a quadrilateral (4 points)
+      if (approxCurve.rows !== 4) {
+        safeDelete(approxCurve);
+        continue;
+      }
+
+      // Get the 4 corners
+      const corners: Point[] = [];
+      for (let j = 0; j < 4; j++) {
+        corners.push({
+          x: approxCurve.data32S[j * 2],
+          y: approxCurve.data32S[j * 2 + 1]
+        });
+      }
+      safeDelete(approxCurve);
+
+      // Get bounding rect for aspect ratio check
+      const rect = cv.boundingRect(contour);
+      const aspect = Math.min(rect.width, rect.height) / Math.max(rect.width, rect.height);
+
+      // Check aspect ratio similarity to paper (more lenient)
+      const aspectDiff = Math.abs(aspect - targetAspect);
+      if (aspectDiff > 0.3) continue; // aspect ratio too different
+
+      // Check rectangularity: contour area vs bounding rect area (more lenient)
+      const rectArea = rect.width * rect.height;
+      const rectangularity = area / rectArea;
+      if (rectangularity < 0.5) continue; // not rectangular enough
+
+      // Score: bigger area + better rectangularity + better aspect match
+      const score = (area / totalPixels) * rectangularity * (1 - aspectDiff);
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestContour = corners;
+      }
+    }
+
+    if (!bestContour) {
+      console.log('[paper] No paper found');
+      return null;
+    }
+
+    // Scale corners back to original image coordinates
+    const scaledCorners = bestContour.map(p => ({
+      x: p.x * scale,
+      y: p.y * scale,
+    }));
+
+    const xs = scaledCorners.map(p => p.x);
+    const ys = scaledCorners.map(p => p.y);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+
+    console.log('[paper] Paper found:', (maxX - minX), 'x', (maxY - minY), 'px');
+    return {
+      corners: scaledCorners,
+      width: maxX - minX,
+      height: maxY - minY,
+    };
+  } finally {
+    safeDelete(src, gray, blurred, edges, contours, hierarchy);
+  }
+}
+
+// Smooth contour using percentage of arc length (outline-app style)
+// Lower percentage = more aggressive smoothing
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function smoothContour(cv: any, contour: any, maxDeviationPercent = 0.001): any {
+  const smooth = new cv.Mat();
+  const accuracy = maxDeviationPercent * cv.arcLength(contour, true);
+  cv.approxPolyDP(contour, smooth, accuracy, true);
+  return smooth;
+}
+
+// Check if contour is top-level (no parent) - outline-app style
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function isTopLevelContour(i: number, hierarchy: any): boolean {
+  const hierarchyValue = hierarchy.intPtr(0, i);
+  if (hierarchyValue.length >= 4) {
+    return hierarchyValue[3] === -1; // parent index == -1
+  }
+  return true;
+}
+
+// OpenCV kernel and block sizes must be odd
+function odd(n: number, min = 1): number {
+  const k = Math.max(min, Math.round(n));
+  return k % 2 === 1 ? k : k + 1;
+}
+
+// Top-level contours of a reasonable size from a binary image, simplified
+// and scaled back to the original image's pixels
+function collectContours(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  binary: any,
+  approx: number,
+  imageArea: number,
+  scale: number,
+  epsilon: number
+): { contour: Point[]; area: number }[] {
+  const found: { contour: Point[]; area: number }[] = [];
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  try {
+    // RETR_TREE to get hierarchy
+    cv.findContours(binary, contours, hierarchy, cv.RETR_TREE, approx);
+    for (let i = 0; i < contours.size(); i++) {
+      // Only top-level contours (outline-app style)
+      if (!isTopLevelContour(i, hierarchy)) continue;
+
+      const contour = contours.get(i);
+      const area = cv.contourArea(contour);
+      if (area < imageArea * MIN_CONTOUR_AREA_RATIO || area > imageArea * MAX_CONTOUR_AREA_RATIO) continue;
+
+      const smoothed = smoothContour(cv, contour, epsilon);
+      const points: Point[] = [];
+      for (let j = 0; j < smoothed.rows; j++) {
+        points.push({
+          x: smoothed.data32S[j * 2] * scale,
+          y: smoothed.data32S[j * 2 + 1] * scale
+        });
+      }
+      safeDelete(smoothed);
+
+      if (points.length >= 3) found.push({ contour: points, area: area * scale * scale });
+    }
+  } finally {
+    safeDelete(contours, hierarchy);
+  }
+  return found;
+}
+
+// Fill (or, with a thickness, stroke) a polygon given in the Mat's own pixels
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function fillPolygon(cv: any, target: any, points: Point[], value: number, thickness = 0) {
+  const poly = cv.matFromArray(points.length, 1, cv.CV_32SC2, points.flatMap(p => [Math.round(p.x), Math.round(p.y)]));
+  const polys = new cv.MatVector();
+  polys.push_back(poly);
+  try {
+    if (thickness > 0) cv.polylines(target, polys, true, new cv.Scalar(value), thickness);
+    else cv.fillPoly(target, polys, new cv.Scalar(value));
+  } finally {
+    safeDelete(poly, polys);
+  }
+}
+
+// Median colour inside the mask, per channel, so the object on the paper doesn't skew it
+function medianColor(rgba: Uint8Array, mask: Uint8Array): [number, number, number] {
+  const hist = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+  let count = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    hist[0][rgba[i * 4]]++;
+    hist[1][rgba[i * 4 + 1]]++;
+    hist[2][rgba[i * 4 + 2]]++;
+    count++;
+  }
+  return hist.map(h => {
+    let seen = 0;
+    for (let v = 0; v < 256; v++) {
+      seen += h[v];
+      if (seen * 2 >= count) return v;
+    }
+    return 255;
+  }) as [number, number, number];
+}
+
+// Colour difference from the reference in OpenCV's 8-bit encodings: CIE76 ΔE
+// for Lab, and for HSV the distance inside the HSV cone (so greys of any hue
+// match), scaled to 0–100
+function colorDistance(space: 'lab' | 'hsv', ref: ArrayLike<number>) {
+  if (space === 'lab') {
+    const l0 = ref[0] * 100 / 255;
+    return (l: number, a: number, b: number) => Math.hypot(l * 100 / 255 - l0, a - ref[1], b - ref[2]);
+  }
+  const cone = (h: number, s: number, v: number) => {
+    const r = s * v / 255, angle = h * Math.PI / 90; // H is 0–180
+    return [r * Math.cos(angle), r * Math.sin(angle), v];
+  };
+  const [x0, y0, z0] = cone(ref[0], ref[1], ref[2]);
+  return (h: number, s: number, v: number) => {
+    const [x, y, z] = cone(h, s, v);
+    return Math.hypot(x - x0, y - y0, z - z0) * 100 / 255;
+  };
+}
+
+// Binary mask of pixels that differ in colour from the paper, limited to the
+// paper region (or the whole image without one)
+function segmentByColor(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  src: any,
+  settings: ProcessingParams['color'],
+  paperRegion: Point[] | undefined,
+  scale: number
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): any {
+  const region = cv.Mat.zeros(src.rows, src.cols, cv.CV_8UC1);
+  const sample = cv.Mat.zeros(src.rows, src.cols, cv.CV_8UC1);
+  const blurred = new cv.Mat();
+  const rgb = new cv.Mat();
+  const converted = new cv.Mat();
+  const refPixel = new cv.Mat(1, 1, cv.CV_8UC3);
+  const refConverted = new cv.Mat();
+  const kernel = cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(5, 5));
+  const mask = new cv.Mat(src.rows, src.cols, cv.CV_8UC1);
+  try {
+    if (paperRegion && paperRegion.length >= 3) {
+      const corners = paperRegion.map(p => ({ x: p.x / scale, y: p.y / scale }));
+      const cx = corners.reduce((s, p) => s + p.x, 0) / corners.length;
+      const cy = corners.reduce((s, p) => s + p.y, 0) / corners.length;
+      fillPolygon(cv, region, corners, 255);
+      fillPolygon(cv, sample, corners.map(p => ({
+        x: cx + (p.x - cx) * (1 - PAPER_SAMPLE_INSET),
+        y: cy + (p.y - cy) * (1 - PAPER_SAMPLE_INSET),
+      })), 255);
+    } else {
+      region.setTo(new cv.Scalar(255));
+      sample.setTo(new cv.Scalar(255));
+    }
+
+    const k = odd(settings.blurKernel);
+    cv.GaussianBlur(src, blurred, new cv.Size(k, k), 0);
+    cv.cvtColor(blurred, rgb, cv.COLOR_RGBA2RGB);
+    const code = settings.space === 'lab' ? cv.COLOR_RGB2Lab : cv.COLOR_RGB2HSV;
+    cv.cvtColor(rgb, converted, code);
+
+    const paper = medianColor(blurred.data, sample.data);
+    refPixel.data.set(paper);
+    cv.cvtColor(refPixel, refConverted, code);
+    console.log(`[contour] Paper colour rgb(${paper.join(', ')})`);
+
+    const distance = colorDistance(settings.space, refConverted.data);
+    const px = converted.data, inside = region.data, out = mask.data;
+    for (let i = 0; i < out.length; i++) {
+      out[i] = inside[i] && distance(px[i * 3], px[i * 3 + 1], px[i * 3 + 2]) > settings.threshold ? 255 : 0;
+    }
+    // Drop speckles left by paper texture and noise
+    cv.morphologyEx(mask, mask, cv.MORPH_OPEN, kernel);
+    return mask;
+  } catch (err) {
+    safeDelete(mask);
+    throw err;
+  } finally {
+    safeDelete(region, sample, blurred, rgb, converted, refPixel, refConverted, kernel);
+  }
+}
+
+interface GrayRegion {
+  data: Float32Array;
+  x0: number;
+  y0: number;
+  width: number;
+  height: number;
+}
+
+// Grey levels of part of a (full-resolution) image
+function readGrayRegion(
+  ctx: OffscreenCanvasRenderingContext2D,
+  x0: number,
+  y0: number,
+  width: number,
+  height: number
+): GrayRegion {
+  const rgba = ctx.getImageData(x0, y0, width, height).data;
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { data, x0, y0, width, height };
+}
+
+// Bilinear grey level at image pixel coordinates; NaN outside the region
+function sampleGray(region: GrayRegion, x: number, y: number): number {
+  const fx = x - region.x0, fy = y - region.y0;
+  const ix = Math.floor(fx), iy = Math.floor(fy);
+  if (ix < 0 || iy < 0 || ix + 1 >= region.width || iy + 1 >= region.height) return NaN;
+  const ax = fx - ix, ay = fy - iy;
+  const i = iy * region.width + ix, d = region.data;
+  return (d[i] * (1 - ax) + d[i + 1] * ax) * (1 - ay) +
+    (d[i + region.width] * (1 - ax) + d[i + region.width + 1] * ax) * ay;
+}
+
+// Move each vertex along its normal (taken from its neighbours) to the steepest
+// grey-level change within `radius` px, placed between samples by a parabola
+// through the gradient peak. Vertices with no clear edge in reach stay put.
+function snapToEdges(region: GrayRegion, points: Point[], radius: number): Point[] {
+  const reach = Math.ceil(radius / SUBPIXEL_STEP);
+  const lag = Math.round(1 / SUBPIXEL_STEP); // central difference over ±1 px
+  const n = points.length;
+  return points.map((p, i) => {
+    const prev = points[(i - 1 + n) % n], next = points[(i + 1) % n];
+    const len = Math.hypot(next.x - prev.x, next.y - prev.y);
+    if (len === 0) return p;
+    const ux = (next.x - prev.x) / len, uy = (next.y - prev.y) / len;
+    const nx = -uy, ny = ux;
+
+    // Grey profile across the outline, averaged over three parallel lines against noise
+    const profile: number[] = [];
+    for (let k = -reach - lag; k <= reach + lag; k++) {
+      const t = k * SUBPIXEL_STEP;
+      let sum = 0;
+      for (let side = -1; side <= 1; side++) {
+        sum += sampleGray(region, p.x + nx * t + ux * side, p.y + ny * t + uy * side);
+      }
+      profile.push(sum / 3);
+    }
+    if (profile.some(Number.isNaN)) return p;
+
+    // gradient[k] is the edge strength at offset (k - reach) steps
+    const gradient: number[] = [];
+    for (let k = lag; k < profile.length - lag; k++) {
+      gradient.push(Math.abs(profile[k + lag] - profile[k - lag]) / 2);
+    }
+    let best = 0;
+    for (let k = 1; k < gradient.length; k++) {
+      if (gradient[k] > gradient[best]) best = k;
+    }
+    if (best === 0 || best === gradient.length - 1 || gradient[best] < SUBPIXEL_MIN_GRADIENT) return p;
+
+    const [a, b, c] = [gradient[best - 1], gradient[best], gradient[best + 1]];
+    const curvature = a - 2 * b + c;
+    const shift = curvature < 0 ? (a - c) / (2 * curvature) : 0;
+    const t = (best - reach + shift) * SUBPIXEL_STEP;
+    return { x: p.x + nx * t, y: p.y + ny * t };
+  });
+}
+
+// Snap every object outline to its edges in the full-resolution photo
+function refineSubpixel(candidates: ContourCandidate[], fullImage: ImageBitmap, radius: number) {
+  const canvas = new OffscreenCanvas(fullImage.width, fullImage.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+  ctx.drawImage(fullImage, 0, 0);
+  fullImage.close();
+
+  const margin = Math.ceil(radius) + 3; // room for the profile and its difference
+  for (const candidate of candidates) {
+    if (candidate.isPaper) continue;
+    const xs = candidate.points.map(p => p.x), ys = candidate.points.map(p => p.y);
+    const x0 = Math.max(0, Math.floor(Math.min(...xs)) - margin);
+    const y0 = Math.max(0, Math.floor(Math.min(...ys)) - margin);
+    const x1 = Math.min(canvas.width, Math.ceil(Math.max(...xs)) + margin);
+    const y1 = Math.min(canvas.height, Math.ceil(Math.max(...ys)) + margin);
+    if (x1 - x0 < 2 || y1 - y0 < 2) continue;
+    candidate.points = snapToEdges(readGrayRegion(ctx, x0, y0, x1 - x0, y1 - y0), candidate.points, radius);
+  }
+}
+
+/**
+ * Run the enabled detection methods (Canny, adaptive threshold, Otsu, colour),
+ * merge overlapping results, score them and classify each as paper or object.
+ * Points come back in the original image's pixels, most confident first; given
+ * `fullImage`, object outlines are snapped to sub-pixel edges in it.
+ */
+export async function findContours(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  image: ImageBitmap,
+  scale: number,
+  params: ProcessingParams,
+  paperRegion: Point[] | undefined,
+  fullImage: ImageBitmap | undefined,
+  checkpoint: Checkpoint
+): Promise<ContourCandidate[]> {
+  const imageArea = image.width * image.height;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let src: any, gray: any;
+
+  try {
+    await checkpoint('reading');
+    src = readImage(cv, image);
+    if (params.lighting.enabled) {
+      await checkpoint('lighting');
+      const corrected = correctLighting(cv, src, params.lighting);
+      safeDelete(src);
+      src = corrected;
+    }
+    gray = new cv.Mat();
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+
+    const allContours: { contour: Point[]; area: number; method: ContourMethod }[] = [];
+
+    // Method 1: Canny edge on a heavily blurred image (smoother edges)
+    if (params.canny.enabled) {
+      await checkpoint('canny');
+      console.log('[contour] Running Canny edge detection...');
+      const blurred = new cv.Mat();
+      const edges = new cv.Mat();
+      try {
+        const k = odd(params.canny.blurKernel);
+        cv.GaussianBlur(gray, blurred, new cv.Size(k, k), 0);
+        cv.Canny(blurred, edges, params.canny.low, params.canny.high);
+        // TC89_L1 for better edge following
+        const found = collectContours(cv, edges, cv.CHAIN_APPROX_TC89_L1, imageArea, scale, params.epsilon);
+        console.log(`[contour] Canny kept ${found.length} contours`);
+        allContours.push(...found.map(c => ({ ...c, method: 'canny' as const })));
+      } finally {
+        safeDelete(blurred, edges);
+      }
+    }
+
+    // Method 2: Adaptive threshold after an edge-preserving bilateral filter
+    if (params.adaptive.enabled) {
+      await checkpoint('adaptive');
+      console.log('[contour] Running adaptive threshold...');
+      const bilateral = new cv.Mat();
+      const thresh = new cv.Mat();
+      try {
+        cv.bilateralFilter(gray, bilateral, Math.max(1, Math.round(params.adaptive.bilateralDiameter)), 75, 75);
+        cv.adaptiveThreshold(
+          bilateral,
+          thresh,
+          255,
+          cv.ADAPTIVE_THRESH_GAUSSIAN_C,
+          cv.THRESH_BINARY_INV,
+          odd(params.adaptive.blockSize, 3),
+          params.adaptive.c
+        );
+        const found = collectContours(cv, thresh, cv.CHAIN_APPROX_TC89_L1, imageArea, scale, params.epsilon);
+        console.log(`[contour] Adaptive threshold kept ${found.length} contours`);
+        allContours.push(...found.map(c => ({ ...c, method: 'adaptive' as const })));
+      } finally {
+        safeDelete(bilateral, thresh);
+      }
+    }
+
+    // Method 3: Binary threshold with OTSU (fallback)
+    if (params.binary.enabled) {
+      await checkpoint('binary');
+      console.log('[contour] Running binary threshold (OTSU)...');
+      const blurred = new cv.Mat();
+      const thresh = new cv.Mat();
+      try {
+        const k = odd(params.binary.blurKernel);
+        cv.GaussianBlur(gray, blurred, new cv.Size(k, k), 0);
+        cv.threshold(blurred, thresh, 0, 255, cv.THRESH_BINARY_INV + cv.THRESH_OTSU);
+        const found = collectContours(cv, thresh, cv.CHAIN_APPROX_SIMPLE, imageArea, scale, params.epsilon);
+        console.log(`[contour] Binary threshold kept ${found.length} contours`);
+        allContours.push(...found.map(c => ({ ...c, method: 'binary' as const })));
+      } finally {
+        safeDelete(blurred, thresh);
+      }
+    }
+
+    // Method 4: distance from the paper's colour, for parts too close to it in brightness
+    if (params.color.enabled) {
+      await checkpoint('color');
+      console.log(`[contour] Running colour segmentation (${params.color.space})...`);
+      const mask = segmentByColor(cv, src, params.color, paperRegion, scale);
+      try {
+        const found = collectContours(cv, mask, cv.CHAIN_APPROX_TC89_L1, imageArea, scale, params.epsilon);
+        console.log(`[contour] Colour segmentation kept ${found.length} contours`);
+        allContours.push(...found.map(c => ({ ...c, method: 'color' as const })));
+      } finally {
+        safeDelete(mask);
+      }
+    }
+
+    await checkpoint('merging');
+    console.log(`[contour] Total contours before dedupe: ${allContours.length}`);
+
+    // Group candidates that outline the same thing
+    const groups: (typeof allContours)[] = [];
+    for (const candidate of allContours) {
+      const group = groups.find(g => polygonIoU(candidate.contour, g[0].contour) > DEDUPE_IOU);
+      if (group) group.push(candidate);
+      else groups.push([candidate]);
+    }
+
+    console.log(`[contour] Total contours after dedupe: ${groups.length}`);
+
+    // Score each version of a group and keep the best: crisp edges along its
+    // boundary, how many methods found it, solidity, and clearance from the paper's edge
+    const blurred = new cv.Mat();
+    const gx = new cv.Mat();
+    const gy = new cv.Mat();
+    const gradient = new cv.Mat();
+    let candidates: ContourCandidate[];
+    try {
+      cv.GaussianBlur(gray, blurred, new cv.Size(3, 3), 0);
+      cv.Sobel(blurred, gx, cv.CV_32F, 1, 0, 3, 1 / 8); // grey levels per pixel
+      cv.Sobel(blurred, gy, cv.CV_32F, 0, 1, 3, 1 / 8);
+      cv.magnitude(gx, gy, gradient);
+
+      const width = src.cols * scale, height = src.rows * scale;
+      const border = paperRegion ?? [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+      const margin = BORDER_MARGIN * Math.max(width, height);
+      const methodCount = (['canny', 'adaptive', 'binary', 'color'] as const).filter(m => params[m].enabled).length;
+
+      candidates = groups.map(group => {
+        const agreement = new Set(group.map(c => c.method)).size / Math.max(1, methodCount);
+        const scored = group.map(c => ({
+          ...c,
+          confidence:
+            CONFIDENCE_WEIGHTS.edge * Math.min(1, edgeStrength(gradient, c.contour, scale) / EDGE_STRONG) +
+            CONFIDENCE_WEIGHTS.agreement * agreement +
+            CONFIDENCE_WEIGHTS.solidity * solidity(c.contour) +
+            CONFIDENCE_WEIGHTS.border * Math.min(1, distanceToBorder(c.contour, border) / margin),
+        }));
+        const best = scored.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+        return {
+          points: best.contour,
+          area: best.area,
+          isPaper: best.area > imageArea * scale * scale * PAPER_AREA_THRESHOLD,
+          detectionMethod: best.method,
+          lightingCorrected: params.lighting.enabled,
+          confidence: best.confidence,
+        };
+      });
+    } finally {
+      safeDelete(blurred, gx, gy, gradient);
+    }
+
+    if (params.subpixel.enabled && fullImage) {
+      await checkpoint('subpixel');
+      refineSubpixel(candidates, fullImage, Math.max(1, params.subpixel.searchRadius * scale));
+    }
+
+    // Most convincing first
+    candidates.sort((a, b) => b.confidence - a.confidence);
+
+    console.log(`[contour] Final candidates: ${candidates.length} (papers: ${candidates.filter(c => c.isPaper).length})`);
+
+    return candidates;
+  } finally {
+    safeDelete(src, gray);
+  }
+}
+
+// Sort corners: TL, TR, BR, BL
+function sortCorners(corners: Point[]): Point[] {
+  const sorted = [...corners].sort((a, b) => {
+    if (Math.abs(a.y - b.y) > 10) return a.y - b.y;
+    return a.x - b.x;
+  });
+
+  const top = sorted.slice(0, 2).sort((a, b) => a.x - b.x);
+  const bottom = sorted.slice(2).sort((a, b) => a.x - b.x);
+
+  return [top[0], top[1], bottom[1], bottom[0]];
+}
+
+/**
+ * Perspective-warp the quadrilateral `srcCorners` (full-size image pixels)
+ * onto a destWidth × destHeight rectangle.
+ */
+export async function warpImage(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  image: ImageBitmap,
+  srcCorners: Point[],
+  destWidth: number,
+  destHeight: number,
+  checkpoint: Checkpoint
+): Promise<ImageData> {
+  await checkpoint('reading');
+  const src = readImage(cv, image);
+  const sorted = sortCorners(srcCorners);
+
+  const srcMat = cv.matFromArray(4, 1, cv.CV_32FC2, [
+    sorted[0].x, sorted[0].y,
+    sorted[1].x, sorted[1].y,
+    sorted[2].x, sorted[2].y,
+    sorted[3].x, sorted[3].y,
+  ]);
+
+  const dstMat = cv.matFromArray(4, 1, cv.CV_32FC2, [
+    0, 0,
+    destWidth, 0,
+    destWidth, destHeight,
+    0, destHeight,
+  ]);
+
+  const transformMatrix = cv.getPerspectiveTransform(srcMat, dstMat);
+  const warped = new cv.Mat();
+
+  try {
+    await checkpoint('warping');
+    cv.warpPerspective(src, warped, transformMatrix, { width: destWidth, height: destHeight });
+    return toImageData(warped);
+  } finally {
+    safeDelete(src, warped, srcMat, dstMat, transformMatrix);
+  }
+}
+
+/**
+ * Re-cut one object with GrabCut: the core of the outline is probable
+ * foreground, a band just inside and outside it probable background (so a
+ * shadow the outline bled into teaches the background model), and the paper
+ * around it background. Returns the largest resulting shape's outline (original image
+ * pixels), or null if GrabCut kept nothing.
+ */
+export async function refineOutline(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  image: ImageBitmap,
+  scale: number,
+  outline: Point[],
+  epsilon: number,
+  checkpoint: Checkpoint
+): Promise<Point[] | null> {
+  await checkpoint('reading');
+  const src = readImage(cv, image);
+  const rgb = new cv.Mat();
+  const bgdModel = new cv.Mat();
+  const fgdModel = new cv.Mat();
+  const kernel = cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(5, 5));
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let crop: any, mask: any, fg: any, core: any, coreKernel: any;
+
+  try {
+    // Work on the outline's surroundings only; GrabCut is slow on a whole photo
+    const pts = outline.map(p => ({ x: p.x / scale, y: p.y / scale }));
+    const xs = pts.map(p => p.x), ys = pts.map(p => p.y);
+    const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+    const margin = Math.max(20, size * GRABCUT_MARGIN);
+    const x0 = Math.max(0, Math.floor(Math.min(...xs) - margin));
+    const y0 = Math.max(0, Math.floor(Math.min(...ys) - margin));
+    const x1 = Math.min(src.cols, Math.ceil(Math.max(...xs) + margin));
+    const y1 = Math.min(src.rows, Math.ceil(Math.max(...ys) + margin));
+    if (x1 - x0 < 3 || y1 - y0 < 3) return null;
+    const rect = new cv.Rect(x0, y0, x1 - x0, y1 - y0);
+    const local = pts.map(p => ({ x: p.x - x0, y: p.y - y0 }));
+
+    await checkpoint('grabcut');
+    cv.cvtColor(src, rgb, cv.COLOR_RGBA2RGB);
+    crop = rgb.roi(rect);
+    const band = Math.max(3, Math.round(size * GRABCUT_BAND));
+    mask = new cv.Mat(rect.height, rect.width, cv.CV_8UC1, new cv.Scalar(cv.GC_BGD));
+    fillPolygon(cv, mask, local, cv.GC_PR_BGD);
+    fillPolygon(cv, mask, local, cv.GC_PR_BGD, band);
+
+    // Core = outline eroded by the band; a part thinner than that keeps its whole outline
+    core = cv.Mat.zeros(rect.height, rect.width, cv.CV_8UC1);
+    fillPolygon(cv, core, local, 255);
+    coreKernel = cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(band * 2 + 1, band * 2 + 1));
+    cv.erode(core, core, coreKernel);
+    if (cv.countNonZero(core) === 0) fillPolygon(cv, core, local, 255);
+    mask.setTo(new cv.Scalar(cv.GC_PR_FGD), core);
+    cv.grabCut(crop, mask, new cv.Rect(0, 0, 1, 1), bgdModel, fgdModel, GRABCUT_ITERATIONS, cv.GC_INIT_WITH_MASK);
+
+    fg = new cv.Mat(rect.height, rect.width, cv.CV_8UC1);
+    const labels = mask.data, out = fg.data;
+    for (let i = 0; i < out.length; i++) {
+      out[i] = labels[i] === cv.GC_FGD || labels[i] === cv.GC_PR_FGD ? 255 : 0;
+    }
+    cv.morphologyEx(fg, fg, cv.MORPH_OPEN, kernel);
+    cv.findContours(fg, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_TC89_L1);
+
+    let best = -1, bestArea = 0;
+    for (let i = 0; i < contours.size(); i++) {
+      const area = cv.contourArea(contours.get(i));
+      if (area > bestArea) { bestArea = area; best = i; }
+    }
+    if (best === -1) return null;
+
+    const smoothed = smoothContour(cv, contours.get(best), epsilon);
+    const points: Point[] = [];
+    for (let j = 0; j < smoothed.rows; j++) {
+      points.push({
+        x: (smoothed.data32S[j * 2] + x0) * scale,
+        y: (smoothed.data32S[j * 2 + 1] + y0) * scale,
+      });
+    }
+    safeDelete(smoothed);
+    return points.length >= 3 ? points : null;
+  } finally {
+    safeDelete(src, rgb, crop, mask, fg, core, coreKernel, bgdModel, fgdModel, kernel, contours, hierarchy);
+  }
+}
+
+/**
+ * Cut one object out around clicked seeds (image pixels) with a marker
+ * watershed. Foreground clicks grow the object; background clicks, the image
+ * border and anything outside the paper grow the background, and the two meet
+ * on the strongest edges between them. Returns the outline holding the first
+ * foreground click, in the original image's pixels.
+ */
+export async function segmentFromSeeds(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  image: ImageBitmap,
+  scale: number,
+  foreground: Point[],
+  background: Point[],
+  paperRegion: Point[] | undefined,
+  epsilon: number,
+  checkpoint: Checkpoint
+): Promise<Point[] | null> {
+  await checkpoint('reading');
+  const src = readImage(cv, image);
+  const rgb = new cv.Mat();
+  const kernel = cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(5, 5));
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let markers: any, fg: any;
+
+  try {
+    await checkpoint('watershed');
+    cv.cvtColor(src, rgb, cv.COLOR_RGBA2RGB);
+    cv.GaussianBlur(rgb, rgb, new cv.Size(5, 5), 0); // paper grain shouldn't stop the flood
+
+    // Labels: 0 = undecided, 1 = background, 2 = object
+    const toLocal = (p: Point) => new cv.Point(Math.round(p.x / scale), Math.round(p.y / scale));
+    const radius = Math.max(2, Math.round(Math.max(src.cols, src.rows) * SEED_RADIUS));
+    markers = paperRegion
+      ? new cv.Mat(src.rows, src.cols, cv.CV_32SC1, new cv.Scalar(1))
+      : cv.Mat.zeros(src.rows, src.cols, cv.CV_32SC1);
+    if (paperRegion) fillPolygon(cv, markers, paperRegion.map(p => ({ x: p.x / scale, y: p.y / scale })), 0);
+    // Watershed overwrites the outermost pixels, so the border seed sits just inside them
+    cv.rectangle(markers, new cv.Point(1, 1), new cv.Point(src.cols - 2, src.rows - 2), new cv.Scalar(1), 1);
+    for (const p of background) cv.circle(markers, toLocal(p), radius, new cv.Scalar(1), -1);
+    for (const p of foreground) cv.circle(markers, toLocal(p), radius, new cv.Scalar(2), -1);
+    cv.watershed(rgb, markers);
+
+    fg = cv.Mat.zeros(src.rows, src.cols, cv.CV_8UC1);
+    const labels = markers.data32S, out = fg.data;
+    for (let i = 0; i < out.length; i++) {
+      if (labels[i] === 2) out[i] = 255;
+    }
+    cv.morphologyEx(fg, fg, cv.MORPH_OPEN, kernel);
+    cv.findContours(fg, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_TC89_L1);
+
+    // The piece under the first click; the largest if opening shaved the click off
+    const seed = toLocal(foreground[0]);
+    let best = -1, bestArea = 0;
+    for (let i = 0; i < contours.size(); i++) {
+      const contour = contours.get(i);
+      const area = cv.pointPolygonTest(contour, seed, false) >= 0 ? Infinity : cv.contourArea(contour);
+      if (area > bestArea) { bestArea = area; best = i; }
+    }
+    if (best === -1) return null;
+
+    const smoothed = smoothContour(cv, contours.get(best), epsilon);
+    const points: Point[] = [];
+    for (let j = 0; j < smoothed.rows; j++) {
+      points.push({ x: smoothed.data32S[j * 2] * scale, y: smoothed.data32S[j * 2 + 1] * scale });
+    }
+    safeDelete(smoothed);
+    return points.length >= 3 ? points : null;
+  } finally {
+    safeDelete(src, rgb, kernel, markers, fg, contours, hierarchy);
+  }
+}
+
+// Outline of the largest white shape in a painted mask, in the original image's pixels
+export async function traceMask(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  image: ImageBitmap,
+  scale: number,
+  epsilon: number,
+  checkpoint: Checkpoint
+): Promise<Point[] | null> {
+  await checkpoint('reading');
+  const src = readImage(cv, image);
+  const mask = new cv.Mat();
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+
+  try {
+    await checkpoint('tracing');
+    cv.cvtColor(src, mask, cv.COLOR_RGBA2GRAY);
+    cv.threshold(mask, mask, 127, 255, cv.THRESH_BINARY);
+    cv.findContours(mask, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_TC89_L1);
+
+    let best = -1, bestArea = 0;
+    for (let i = 0; i < contours.size(); i++) {
+      const area = cv.contourArea(contours.get(i));
+      if (area > bestArea) { bestArea = area; best = i; }
+    }
+    if (best === -1) return null;
+
+    const smoothed = smoothContour(cv, contours.get(best), epsilon);
+    const points: Point[] = [];
+    for (let j = 0; j < smoothed.rows; j++) {
+      points.push({ x: smoothed.data32S[j * 2] * scale, y: smoothed.data32S[j * 2 + 1] * scale });
+    }
+    safeDelete(smoothed);
+    return points.length >= 3 ? points : null;
+  } finally {
+    safeDelete(src, mask, contours, hierarchy);
+  }
+}
+
+// Squares of a printed checkerboard: dark, convex quadrilaterals of a plausible size
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function findSquares(cv: any, binary: any): { corners: Point[]; side: number }[] {
+  const squares: { corners: Point[]; side: number }[] = [];
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  try {
+    // Every contour, not just outer ones: a dark table round the page would enclose the board
+    cv.findContours(binary, contours, hierarchy, cv.RETR_LIST, cv.CHAIN_APPROX_SIMPLE);
+    const minArea = binary.rows * binary.cols * CHECKER_MIN_AREA;
+    for (let i = 0; i < contours.size(); i++) {
+      const contour = contours.get(i);
+      const area = cv.contourArea(contour);
+      if (area < minArea) continue;
+      const approx = new cv.Mat();
+      cv.approxPolyDP(contour, approx, 0.04 * cv.arcLength(contour, true), true);
+      if (approx.rows === 4 && cv.isContourConvex(approx)) {
+        const corners = [0, 1, 2, 3].map(k => ({ x: approx.data32S[k * 2], y: approx.data32S[k * 2 + 1] }));
+        squares.push({ corners, side: Math.sqrt(area) });
+      }
+      safeDelete(approx);
+    }
+  } finally {
+    safeDelete(contours, hierarchy);
+  }
+
+  // Drop shapes far off the typical square's size (text, the page's own outline)
+  if (squares.length === 0) return squares;
+  const median = [...squares].sort((a, b) => a.side - b.side)[Math.floor(squares.length / 2)].side;
+  return squares.filter(s => s.side > median / 2 && s.side < median * 2);
+}
+
+/**
+ * Rows and columns of inner corners of a checkerboard photo, in the original
+ * image's pixels, for fitting lens distortion. The dark squares are thresholded
+ * and shrunk apart; where corners of two squares meet is a grid corner, the
+ * squares' sides link neighbouring corners, and straight runs of links are
+ * the rows and columns.
+ */
+export async function findCheckerboardLines(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  image: ImageBitmap,
+  scale: number,
+  checkpoint: Checkpoint
+): Promise<Point[][]> {
+  await checkpoint('reading');
+  const src = readImage(cv, image);
+  const binary = new cv.Mat();
+  const kernel = cv.Mat.ones(3, 3, cv.CV_8U);
+
+  let squares: { corners: Point[]; side: number }[];
+  try {
+    await checkpoint('checkerboard');
+    cv.cvtColor(src, binary, cv.COLOR_RGBA2GRAY);
+    const block = odd(Math.min(src.cols, src.rows) * CHECKER_BLOCK, 3);
+    cv.adaptiveThreshold(binary, binary, 255, cv.ADAPTIVE_THRESH_MEAN_C, cv.THRESH_BINARY_INV, block, 0);
+    cv.erode(binary, binary, kernel, new cv.Point(-1, -1), 2); // squares only touch at their corners
+    squares = findSquares(cv, binary);
+  } finally {
+    safeDelete(src, binary, kernel);
+  }
+
+  // Pair each square corner with the nearest corner of another square, if they agree
+  const vertices = squares.flatMap((s, square) => s.corners.map(p => ({ p, square, side: s.side })));
+  const nearest = vertices.map((v, i) => {
+    let best = -1, bestDist = CHECKER_MATCH * v.side;
+    vertices.forEach((w, j) => {
+      if (w.square === v.square) return;
+      const d = Math.hypot(w.p.x - v.p.x, w.p.y - v.p.y);
+      if (d < bestDist) { bestDist = d; best = j; }
+    });
+    return best === i ? -1 : best;
+  });
+  const cornerOf = new Array<number>(vertices.length).fill(-1);
+  const corners: Point[] = [];
+  nearest.forEach((j, i) => {
+    if (j < 0 || nearest[j] !== i || j < i) return;
+    cornerOf[i] = cornerOf[j] = corners.length;
+    corners.push({ x: (vertices[i].p.x + vertices[j].p.x) / 2, y: (vertices[i].p.y + vertices[j].p.y) / 2 });
+  });
+
+  const neighbours: Set<number>[] = corners.map(() => new Set());
+  squares.forEach((_, square) => {
+    for (let k = 0; k < 4; k++) {
+      const a = cornerOf[square * 4 + k], b = cornerOf[square * 4 + ((k + 1) % 4)];
+      if (a >= 0 && b >= 0) { neighbours[a].add(b); neighbours[b].add(a); }
+    }
+  });
+
+  // The neighbour of `to` that carries on straight from `from`, or -1
+  const straightOn = (from: number, to: number): number => {
+    const dx = corners[to].x - corners[from].x, dy = corners[to].y - corners[from].y;
+    let best = -1, bestCos = CHECKER_ALIGN;
+    neighbours[to].forEach(n => {
+      if (n === from) return;
+      const ex = corners[n].x - corners[to].x, ey = corners[n].y - corners[to].y;
+      const cos = (dx * ex + dy * ey) / (Math.hypot(dx, dy) * Math.hypot(ex, ey));
+      if (cos > bestCos) { bestCos = cos; best = n; }
+    });
+    return best;
+  };
+
+  // Walk each row from its end; every row is found from both ends, so keep one
+  const lines: Point[][] = [];
+  neighbours.forEach((ns, start) => {
+    ns.forEach(second => {
+      if (straightOn(second, start) !== -1) return; // not an end
+      const line = [start, second];
+      for (let next = straightOn(start, second); next !== -1 && !line.includes(next); ) {
+        line.push(next);
+        next = straightOn(line[line.length - 2], next);
+      }
+      if (line.length >= CHECKER_MIN_LINE && line[0] < line[line.length - 1]) {
+        lines.push(line.map(i => ({ x: corners[i].x * scale, y: corners[i].y * scale })));
+      }
+    });
+  });
+  return lines;
+}
+
+/**
+ * Remove radial lens distortion: a point at distance r from the centre, in
+ * units of the longer side, was photographed at r·(1 + k1·r² + k2·r⁴). Same
+ * model as lib/lens.ts; the output keeps the input's size and focal length.
+ */
+export async function undistortImage(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  image: ImageBitmap,
+  k1: number,
+  k2: number,
+  checkpoint: Checkpoint
+): Promise<ImageData> {
+  await checkpoint('reading');
+  const src = readImage(cv, image);
+  const f = Math.max(src.cols, src.rows);
+  const camera = cv.matFromArray(3, 3, cv.CV_64F, [f, 0, (src.cols - 1) / 2, 0, f, (src.rows - 1) / 2, 0, 0, 1]);
+  const coefficients = cv.matFromArray(1, 5, cv.CV_64F, [k1, k2, 0, 0, 0]);
+  const undistorted = new cv.Mat();
+  try {
+    await checkpoint('undistorting');
+    cv.undistort(src, undistorted, camera, coefficients, camera);
+    return toImageData(undistorted);
+  } finally {
+    safeDelete(src, camera, coefficients, undistorted);
+  }
+}
+
+// The lighting-corrected image itself, for the detector's before/after view
+export async function lightingPreview(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  image: ImageBitmap,
+  settings: ProcessingParams['lighting'],
+  checkpoint: Checkpoint
+): Promise<ImageData> {
+  await checkpoint('reading');
+  const src = readImage(cv, image);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let corrected: any;
+  try {
+    await checkpoint('lighting');
+    corrected = correctLighting(cv, src, settings);
+    return toImageData(corrected);
+  } finally {
+    safeDelete(src, corrected);
+  }
+}
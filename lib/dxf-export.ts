@@ -0,0 +1,157 @@
+import type { Point, Contour, JigConfig } from './types';
+import { buildJigPlate, applyKerf, SLOT_DIGIT_MM } from './jig-utils';
+import { fitPath } from './curve-fit';
+
+// Layer names and ACI colours (7 = white/black, 4 = cyan, 8 = grey, 2 = yellow)
+const LAYERS = {
+  border: { name: 'JIG_BORDER', color: 7 },
+  cutout: { name: 'CUTOUT', color: 4 },
+  crosshairs: { name: 'CROSSHAIRS', color: 8 },
+  labels: { name: 'SLOT_LABELS', color: 2 },
+} as const;
+
+type LayerName = typeof LAYERS[keyof typeof LAYERS]['name'];
+
+// DXF is a flat list of group code / value pairs, one per line
+function pair(code: number, value: string | number): string {
+  const v = typeof value === 'number' ? formatNumber(value) : value;
+  return `${code}\n${v}`;
+}
+
+function formatNumber(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(4);
+}
+
+// Closed polyline, with arcs fitted within the tolerance stored as vertex bulges
+// (R12 has no splines, so no Béziers here)
+function polyline(points: Point[], layer: LayerName, toleranceMm: number): string {
+  const lines = [
+    pair(0, 'POLYLINE'),
+    pair(8, layer),
+    pair(66, 1),
+    pair(10, 0), pair(20, 0), pair(30, 0),
+    pair(70, 1), // closed
+  ];
+  const { start, segments } = fitPath(points, toleranceMm, false);
+  segments.forEach((s, i) => {
+    const p = i === 0 ? start : segments[i - 1].to;
+    lines.push(pair(0, 'VERTEX'), pair(8, layer), pair(10, p.x), pair(20, p.y), pair(30, 0));
+    // Bulge is tan(sweep / 4), positive counter-clockwise, on the vertex the arc leaves from
+    if (s.kind === 'arc') lines.push(pair(42, Math.tan(s.sweep / 4).toFixed(6)));
+  });
+  lines.push(pair(0, 'SEQEND'), pair(8, layer));
+  return lines.join('\n');
+}
+
+// widthFactor narrows the glyphs (group 41), as a fraction of their usual width
+function text(value: string, at: Point, height: number, widthFactor: number, layer: LayerName): string {
+  return [
+    pair(0, 'TEXT'),
+    pair(8, layer),
+    pair(10, at.x), pair(20, at.y), pair(30, 0),
+    pair(40, height),
+    pair(41, widthFactor),
+    pair(1, value),
+  ].join('\n');
+}
+
+function line(a: Point, b: Point, layer: LayerName): string {
+  return [
+    pair(0, 'LINE'),
+    pair(8, layer),
+    pair(10, a.x), pair(20, a.y), pair(30, 0),
+    pair(11, b.x), pair(21, b.y), pair(31, 0),
+  ].join('\n');
+}
+
+export function generateDXF(
+  contours: Contour[],
+  contourBounds: { width: number; height: number },
+  config: JigConfig,
+  pixelsPerMm: number,
+  kerfMm = 0,
+  curveToleranceMm = 0
+): string {
+  const plate = applyKerf(buildJigPlate(contours, config, pixelsPerMm), kerfMm);
+  const jigWidth = plate.widthMm;
+  const jigHeight = plate.heightMm;
+
+  // Move the origin to the bottom-left corner and flip to Y-up
+  const toDxf = (p: Point): Point => ({ x: p.x + jigWidth / 2, y: jigHeight / 2 - p.y });
+  const border = plate.outline.map(toDxf);
+  const cutouts = plate.cutouts.map(pts => pts.map(toDxf));
+  const labels = plate.labels.map(l => ({ text: l.text, at: toDxf(l.at) }));
+
+  // Corner crosshairs: an L at each corner, matching the SVG layout
+  const crosshairSize = 5;
+  const crosshairOffset = 2;
+  const crosshairs: [Point, Point][] = [];
+  const corners: Point[] = !plate.hasCorners ? [] : [
+    { x: 0, y: 0 },
+    { x: jigWidth, y: 0 },
+    { x: jigWidth, y: jigHeight },
+    { x: 0, y: jigHeight },
+  ];
+  for (const corner of corners) {
+    const sx = corner.x === 0 ? 1 : -1;
+    const sy = corner.y === 0 ? 1 : -1;
+    const origin = { x: corner.x + sx * crosshairOffset, y: corner.y + sy * crosshairOffset };
+    crosshairs.push([origin, { x: origin.x + sx * crosshairSize, y: origin.y }]);
+    crosshairs.push([origin, { x: origin.x, y: origin.y + sy * crosshairSize }]);
+  }
+
+  // Group code 999 is a comment line that CAD programs skip
+  const comment = kerfMm > 0
+    ? `Kerf compensation ${kerfMm} mm: cutouts inset and border outset by ${kerfMm / 2} mm`
+    : 'No kerf compensation';
+
+  const header = [
+    pair(999, comment),
+    pair(0, 'SECTION'), pair(2, 'HEADER'),
+    pair(9, '$ACADVER'), pair(1, 'AC1009'),
+    pair(9, '$INSUNITS'), pair(70, 4), // millimetres
+    pair(9, '$MEASUREMENT'), pair(70, 1), // metric
+    pair(9, '$EXTMIN'), pair(10, 0), pair(20, 0), pair(30, 0),
+    pair(9, '$EXTMAX'), pair(10, jigWidth), pair(20, jigHeight), pair(30, 0),
+    pair(0, 'ENDSEC'),
+  ];
+
+  const layers = Object.values(LAYERS);
+  const tables = [
+    pair(0, 'SECTION'), pair(2, 'TABLES'),
+    pair(0, 'TABLE'), pair(2, 'LTYPE'), pair(70, 1),
+    pair(0, 'LTYPE'), pair(2, 'CONTINUOUS'), pair(70, 0), pair(3, 'Solid line'),
+    pair(72, 65), pair(73, 0), pair(40, 0),
+    pair(0, 'ENDTAB'),
+    pair(0, 'TABLE'), pair(2, 'LAYER'), pair(70, layers.length),
+    ...layers.flatMap(l => [
+      pair(0, 'LAYER'), pair(2, l.name), pair(70, 0), pair(62, l.color), pair(6, 'CONTINUOUS'),
+    ]),
+    pair(0, 'ENDTAB'),
+    pair(0, 'ENDSEC'),
+  ];
+
+  const entities = [
+    pair(0, 'SECTION'), pair(2, 'ENTITIES'),
+    polyline(border, LAYERS.border.name, curveToleranceMm),
+    ...cutouts.map(pts => polyline(pts, LAYERS.cutout.name, curveToleranceMm)),
+    ...crosshairs.map(([a, b]) => line(a, b, LAYERS.crosshairs.name)),
+    // Narrowed to about the STL digits' width so numbers stay inside the room the layout left
+    ...labels.map(l => text(l.text, l.at, SLOT_DIGIT_MM.height, SLOT_DIGIT_MM.width / SLOT_DIGIT_MM.height, LAYERS.labels.name)),
+    pair(0, 'ENDSEC'),
+  ];
+
+  return [...header, ...tables, ...entities, pair(0, 'EOF')].join('\n') + '\n';
+}
+
+export function downloadDXF(dxfContent: string, filename: string): void {
+  const blob = new Blob([dxfContent], { type: 'application/dxf' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
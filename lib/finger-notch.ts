@@ -0,0 +1,129 @@
+import type { Point, Contour, FingerNotchConfig } from './types';
+import { unionPolygons } from './offset';
+
+const ARC_STEP = Math.PI / 16; // angular resolution of the notch arc
+const STRAIGHT_TOLERANCE = (15 * Math.PI) / 180; // max heading drift within a straight run
+
+function heading(a: Point, b: Point): number {
+  return Math.atan2(b.y - a.y, b.x - a.x);
+}
+
+function angleDiff(a: number, b: number): number {
+  const d = Math.abs(a - b) % (Math.PI * 2);
+  return d > Math.PI ? Math.PI * 2 - d : d;
+}
+
+// Closest point on the outline: the edge it lies on (from points[index]) and the point itself
+function projectOnOutline(points: Point[], p: Point): { index: number; point: Point } {
+  let best = { index: 0, point: points[0], dist: Infinity };
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2));
+    const q = { x: a.x + t * dx, y: a.y + t * dy };
+    const dist = Math.hypot(p.x - q.x, p.y - q.y);
+    if (dist < best.dist) best = { index: i, point: q, dist };
+  }
+  return best;
+}
+
+function area(points: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    sum += points[i].x * points[j].y - points[j].x * points[i].y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Union a circle centered on the outline into the cutout, leaving a
+ * semicircular finger notch. The center is snapped onto the nearest edge.
+ * Returns the outline unchanged if the circle would swallow it.
+ */
+export function addFingerNotch(points: Point[], at: Point, radius: number): Point[] {
+  if (points.length < 3 || radius <= 0) return points;
+  const { point: center } = projectOnOutline(points, at);
+  if (points.every(p => Math.hypot(p.x - center.x, p.y - center.y) <= radius)) return points;
+
+  const steps = Math.ceil((Math.PI * 2) / ARC_STEP);
+  const circle: Point[] = [];
+  for (let s = 0; s < steps; s++) {
+    const a = (Math.PI * 2 * s) / steps;
+    circle.push({ x: center.x + radius * Math.cos(a), y: center.y + radius * Math.sin(a) });
+  }
+
+  // The circle touches the outline, so the union is one piece (bar slivers)
+  const pieces = unionPolygons(points, circle);
+  if (pieces.length === 0) return points;
+  return pieces.reduce((a, b) => (area(b) > area(a) ? b : a));
+}
+
+/**
+ * Notch positions on the longest straight stretches of an outline. A stretch
+ * is a run of edges whose heading stays within a few degrees; each notch goes
+ * at the middle of its stretch.
+ */
+export function autoNotchPositions(points: Point[], count: number): Point[] {
+  const n = points.length;
+  if (n < 3 || count <= 0) return [];
+
+  // Start at a corner so no run is split across the end of the list
+  const headings = points.map((p, i) => heading(p, points[(i + 1) % n]));
+  let start = 0;
+  for (let i = 0; i < n; i++) {
+    if (angleDiff(headings[i], headings[(i - 1 + n) % n]) > STRAIGHT_TOLERANCE) { start = i; break; }
+  }
+
+  const runs: { edges: number[]; length: number }[] = [];
+  for (let k = 0; k < n; k++) {
+    const i = (start + k) % n;
+    const len = Math.hypot(points[(i + 1) % n].x - points[i].x, points[(i + 1) % n].y - points[i].y);
+    const run = runs[runs.length - 1];
+    if (run && angleDiff(headings[i], headings[run.edges[0]]) <= STRAIGHT_TOLERANCE) {
+      run.edges.push(i);
+      run.length += len;
+    } else {
+      runs.push({ edges: [i], length: len });
+    }
+  }
+
+  return runs
+    .sort((a, b) => b.length - a.length)
+    .slice(0, count)
+    .map(run => {
+      // Walk half the run's length along its edges
+      let remaining = run.length / 2;
+      for (const i of run.edges) {
+        const a = points[i], b = points[(i + 1) % n];
+        const len = Math.hypot(b.x - a.x, b.y - a.y);
+        if (remaining <= len) {
+          const t = len === 0 ? 0 : remaining / len;
+          return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+        }
+        remaining -= len;
+      }
+      return points[run.edges[0]];
+    });
+}
+
+/**
+ * Apply the configured finger notches to each contour (image pixels). Clicked
+ * notch positions win; contours without any get the automatic ones.
+ */
+export function applyFingerNotches(
+  contours: Contour[],
+  notch: FingerNotchConfig | undefined,
+  pixelsPerMm: number
+): Contour[] {
+  if (!notch || notch.radiusMm <= 0) return contours;
+  const radiusPx = notch.radiusMm * pixelsPerMm;
+
+  return contours.map(c => {
+    const positions = c.notches?.length ? c.notches : autoNotchPositions(c.points, notch.autoCount);
+    if (positions.length === 0) return c;
+    const points = positions.reduce((pts, at) => addFingerNotch(pts, at, radiusPx), c.points);
+    return { ...c, points };
+  });
+}
@@ -0,0 +1,200 @@
+import type { Point, FusionMode, ProcessingParams } from './types';
+import { detectAllContours, warpPerspective } from './contour';
+import { detectPaper } from './paper-detect';
+import { resampleOutline } from './smoothing';
+import type { CvJobOptions } from './opencv-client';
+
+// Combining outlines of one object from several photos of the same sheet
+
+const SAMPLES = 360; // outlines are resampled to about this many points
+const ICP_ITERATIONS = 40;
+const ICP_CONVERGED = 1e-3; // px of RMS change that ends the iterations
+const MATCH_AREA_RATIO = 2; // candidates more than this far off in area aren't the object
+const MATCH_MAX_RESIDUAL = 0.05; // registered RMS distance, as a fraction of the object's size
+const FUSE_REACH = 0.1; // outlines further than this along a normal (fraction of size) don't count there
+
+export interface FusedOutline {
+  points: Point[];
+  spread: number[]; // per point: how far apart the photos' outlines are along its normal, in px
+}
+
+function perimeter(points: Point[]): number {
+  let total = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    total += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return total;
+}
+
+function signedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    area += points[i].x * points[j].y - points[j].x * points[i].y;
+  }
+  return area / 2;
+}
+
+function centroid(points: Point[]): Point {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+function outlineSize(points: Point[]): number {
+  const xs = points.map(p => p.x), ys = points.map(p => p.y);
+  return Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+}
+
+function even(points: Point[]): Point[] {
+  return resampleOutline(points, perimeter(points) / SAMPLES);
+}
+
+interface Rigid {
+  cos: number;
+  sin: number;
+  tx: number;
+  ty: number;
+}
+
+function applyRigid(t: Rigid, points: Point[]): Point[] {
+  return points.map(p => ({ x: t.cos * p.x - t.sin * p.y + t.tx, y: t.sin * p.x + t.cos * p.y + t.ty }));
+}
+
+function rotationAbout(center: Point, angle: number): Rigid {
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  return { cos, sin, tx: center.x - cos * center.x + sin * center.y, ty: center.y - sin * center.x - cos * center.y };
+}
+
+// Least-squares rotation + translation taking src[i] onto dst[i]
+function fitRigid(src: Point[], dst: Point[]): Rigid {
+  const cs = centroid(src), cd = centroid(dst);
+  let dot = 0, cross = 0;
+  for (let i = 0; i < src.length; i++) {
+    const ax = src[i].x - cs.x, ay = src[i].y - cs.y;
+    const bx = dst[i].x - cd.x, by = dst[i].y - cd.y;
+    dot += ax * bx + ay * by;
+    cross += ax * by - ay * bx;
+  }
+  const angle = Math.atan2(cross, dot);
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  return { cos, sin, tx: cd.x - (cos * cs.x - sin * cs.y), ty: cd.y - (sin * cs.x + cos * cs.y) };
+}
+
+function nearest(points: Point[], p: Point): Point {
+  let best = points[0], bestDist = Infinity;
+  for (const q of points) {
+    const d = (q.x - p.x) ** 2 + (q.y - p.y) ** 2;
+    if (d < bestDist) { bestDist = d; best = q; }
+  }
+  return best;
+}
+
+// Iterative closest point from one starting pose; returns the full outline moved and the RMS residual
+function icp(reference: Point[], outline: Point[], start: Rigid): { points: Point[]; residual: number } {
+  let moving = applyRigid(start, outline);
+  let samples = even(moving);
+  let residual = Infinity;
+  for (let it = 0; it < ICP_ITERATIONS; it++) {
+    const pairs = samples.map(p => nearest(reference, p));
+    const rms = Math.sqrt(samples.reduce((sum, p, i) => sum + (p.x - pairs[i].x) ** 2 + (p.y - pairs[i].y) ** 2, 0) / samples.length);
+    if (residual - rms < ICP_CONVERGED) { residual = Math.min(residual, rms); break; }
+    residual = rms;
+    const step = fitRigid(samples, pairs);
+    moving = applyRigid(step, moving);
+    samples = applyRigid(step, samples);
+  }
+  return { points: moving, residual };
+}
+
+/**
+ * Rigidly align an outline onto a reference outline of the same object with
+ * iterative closest point. Both photos were warped onto the same sheet, so
+ * the only large move to expect is the sheet turned round; a half turn about
+ * `center` (the paper's middle) is tried as well and the better fit kept.
+ */
+export function registerOutline(reference: Point[], outline: Point[], center: Point): { points: Point[]; residual: number } {
+  const target = even(reference);
+  const [straight, turned] = [0, Math.PI].map(angle => icp(target, outline, rotationAbout(center, angle)));
+  return turned.residual < straight.residual ? turned : straight;
+}
+
+// Where the outline crosses the line p + t·n, as the t closest to p (null if it doesn't within reach)
+function offsetAlong(outline: Point[], p: Point, n: Point, reach: number): number | null {
+  let best: number | null = null;
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i], b = outline[(i + 1) % outline.length];
+    const ex = b.x - a.x, ey = b.y - a.y;
+    const denom = n.x * ey - n.y * ex;
+    if (Math.abs(denom) < 1e-12) continue;
+    const wx = a.x - p.x, wy = a.y - p.y;
+    const t = (wx * ey - wy * ex) / denom;
+    const u = (wx * n.y - wy * n.x) / denom;
+    if (u < 0 || u > 1 || Math.abs(t) > reach) continue;
+    if (best === null || Math.abs(t) < Math.abs(best)) best = t;
+  }
+  return best;
+}
+
+/**
+ * Fuse registered outlines of one object, the first being the reference.
+ * Along each reference point's outward normal, 'average' moves it to the mean
+ * of where the outlines cross, 'union' to the outermost (never tighter than
+ * any photo). `spread` is the distance between the innermost and outermost crossing.
+ */
+export function fuseOutlines(outlines: Point[][], mode: FusionMode): FusedOutline {
+  const reference = even(outlines[0]);
+  const outward = signedArea(reference) > 0 ? 1 : -1;
+  const reach = FUSE_REACH * outlineSize(reference);
+  const points: Point[] = [];
+  const spread: number[] = [];
+
+  reference.forEach((p, i) => {
+    const prev = reference[(i - 1 + reference.length) % reference.length];
+    const next = reference[(i + 1) % reference.length];
+    const len = Math.hypot(next.x - prev.x, next.y - prev.y) || 1;
+    const n = { x: (outward * (next.y - prev.y)) / len, y: (-outward * (next.x - prev.x)) / len };
+
+    const offsets = [0];
+    for (const other of outlines.slice(1)) {
+      const t = offsetAlong(other, p, n, reach);
+      if (t !== null) offsets.push(t);
+    }
+    const shift = mode === 'union' ? Math.max(...offsets) : offsets.reduce((a, b) => a + b, 0) / offsets.length;
+    points.push({ x: p.x + n.x * shift, y: p.y + n.y * shift });
+    spread.push(Math.max(...offsets) - Math.min(...offsets));
+  });
+
+  return { points, spread };
+}
+
+/**
+ * Find the object's outline in another photo of the same sheet: the photo is
+ * warped onto the paper at `width` × `height` like the first one, detected,
+ * and the candidate that registers best onto `reference` returned, already
+ * aligned. Null if there's no paper or nothing matches.
+ */
+export async function matchOutlineInPhoto(
+  imageElement: HTMLImageElement,
+  width: number,
+  height: number,
+  reference: Point[],
+  params: ProcessingParams,
+  options: CvJobOptions = {}
+): Promise<Point[] | null> {
+  const paper = await detectPaper(imageElement, 'letter', options);
+  if (!paper || paper.corners.length !== 4) return null;
+  const warped = await warpPerspective(imageElement, paper.corners, width, height, options);
+  const candidates = await detectAllContours(warped, params, undefined, options);
+
+  const area = Math.abs(signedArea(reference));
+  const size = outlineSize(reference);
+  const center = { x: width / 2, y: height / 2 };
+  let best: { points: Point[]; residual: number } | null = null;
+  for (const c of candidates) {
+    if (c.isPaper || c.area > area * MATCH_AREA_RATIO || c.area < area / MATCH_AREA_RATIO) continue;
+    const registered = registerOutline(reference, c.points, center);
+    if (!best || registered.residual < best.residual) best = registered;
+  }
+  return best && best.residual <= MATCH_MAX_RESIDUAL * size ? best.points : null;
+}
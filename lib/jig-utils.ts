@@ -1,3 +1,22 @@
+import type { Point, Contour, JigConfig, BedArrayConfig, JigShape, MachineSettings } from './types';
+import { applyFingerNotches } from './finger-notch';
+import { offsetPolygon, offsetOutline } from './offset';
+import { validateContour } from './contour-validate';
+
+const BED_MARGIN_MM = 10; // same padding as a single jig
+export const SLOT_LABEL_MM = 4; // strip above each slot for its index number
+// Slot number digits: the STL raises seven-segment digits this size, and the
+// SVG/DXF text is set at the same height
+export const SLOT_DIGIT_MM = { height: SLOT_LABEL_MM - 1, width: (SLOT_LABEL_MM - 1) * 0.6, gap: (SLOT_LABEL_MM - 1) * 0.25 };
+
+/**
+ * Width of a slot number in mm, from the left of its first digit to the
+ * right of its last.
+ */
+export function slotLabelWidthMm(text: string): number {
+  return text.length * (SLOT_DIGIT_MM.width + SLOT_DIGIT_MM.gap) - SLOT_DIGIT_MM.gap;
+}
+
 /**
  * Compute the square jig side length in mm.
  * Takes the larger of width/height, adds 20mm (10mm padding each side),
@@ -13,3 +32,472 @@ export function computeSquareJigSizeMm(
   const withPadding = maxDim + 20; // 10mm each side
   return Math.ceil(withPadding / 10) * 10;
 }
+
+/**
+ * Bounding box of one or more point lists.
+ */
+export function getBounds(polygons: Point[][]): { minX: number; minY: number; maxX: number; maxY: number } {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const pts of polygons) {
+    for (const p of pts) {
+      minX = Math.min(minX, p.x); minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x); maxY = Math.max(maxY, p.y);
+    }
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+  const d1 = cross(c, d, a), d2 = cross(c, d, b);
+  const d3 = cross(a, b, c), d4 = cross(a, b, d);
+  return ((d1 > 0) !== (d2 > 0)) && ((d3 > 0) !== (d4 > 0));
+}
+
+function pointSegmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function pointInside(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i], b = polygon[j];
+    if (((a.y > p.y) !== (b.y > p.y)) && (p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Smallest distance between two polygon outlines (0 if they overlap).
+ */
+export function polygonGap(a: Point[], b: Point[]): number {
+  if (pointInside(a[0], b) || pointInside(b[0], a)) return 0;
+  let best = Infinity;
+  for (let i = 0; i < a.length; i++) {
+    const a1 = a[i], a2 = a[(i + 1) % a.length];
+    for (let j = 0; j < b.length; j++) {
+      const b1 = b[j], b2 = b[(j + 1) % b.length];
+      if (segmentsIntersect(a1, a2, b1, b2)) return 0;
+      best = Math.min(
+        best,
+        pointSegmentDistance(a1, b1, b2),
+        pointSegmentDistance(b1, a1, a2)
+      );
+    }
+  }
+  return best;
+}
+
+function centroid(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+}
+
+/**
+ * Convert contours to mm, centered on their combined bounding box, keeping
+ * their photographed relative positions. Cutouts closer than minWebMm are
+ * pushed apart along the line between their centers until the web is met.
+ */
+export function layoutCutoutsMm(
+  contours: Contour[],
+  pixelsPerMm: number,
+  minWebMm: number
+): Point[][] {
+  const { minX, minY, maxX, maxY } = getBounds(contours.map(c => c.points));
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+
+  const cutouts = contours.map(c => c.points.map(p => ({
+    x: (p.x - cx) / pixelsPerMm,
+    y: (p.y - cy) / pixelsPerMm,
+  })));
+  if (cutouts.length < 2 || minWebMm <= 0) return cutouts;
+
+  const translate = (pts: Point[], dx: number, dy: number) => {
+    for (const p of pts) { p.x += dx; p.y += dy; }
+  };
+
+  for (let iter = 0; iter < 100; iter++) {
+    let moved = false;
+    for (let i = 0; i < cutouts.length; i++) {
+      for (let j = i + 1; j < cutouts.length; j++) {
+        const bi = getBounds([cutouts[i]]), bj = getBounds([cutouts[j]]);
+        const boxGap = Math.max(bj.minX - bi.maxX, bi.minX - bj.maxX, bj.minY - bi.maxY, bi.minY - bj.maxY);
+        if (boxGap >= minWebMm) continue;
+
+        const gap = polygonGap(cutouts[i], cutouts[j]);
+        if (gap >= minWebMm - 1e-3) continue;
+
+        const ci = centroid(cutouts[i]), cj = centroid(cutouts[j]);
+        let dx = cj.x - ci.x, dy = cj.y - ci.y;
+        const len = Math.hypot(dx, dy);
+        if (len < 1e-6) { dx = 1; dy = 0; } else { dx /= len; dy /= len; }
+
+        const push = (minWebMm - gap) / 2 + 0.05;
+        translate(cutouts[i], -dx * push, -dy * push);
+        translate(cutouts[j], dx * push, dy * push);
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+
+  // Re-center after spreading
+  const b = getBounds(cutouts);
+  const ox = (b.minX + b.maxX) / 2, oy = (b.minY + b.maxY) / 2;
+  cutouts.forEach(pts => translate(pts, -ox, -oy));
+  return cutouts;
+}
+
+/**
+ * Square jig side length in mm for a set of cutouts already laid out in mm.
+ */
+export function computeLayoutJigSizeMm(cutoutsMm: Point[][]): number {
+  const { minX, minY, maxX, maxY } = getBounds(cutoutsMm);
+  return computeSquareJigSizeMm({ width: maxX - minX, height: maxY - minY }, 1);
+}
+
+// Whether cutouts centered on the origin keep webMm to every corner arc of a
+// rounded plate. The inset plate is convex, so checking vertices is enough.
+function clearsCorners(cutoutsMm: Point[][], width: number, height: number, radiusMm: number, webMm: number): boolean {
+  const r = Math.min(radiusMm, width / 2, height / 2);
+  const cx = width / 2 - r, cy = height / 2 - r;
+  return cutoutsMm.every(pts => pts.every(p => {
+    const dx = Math.abs(p.x) - cx, dy = Math.abs(p.y) - cy;
+    return dx <= 0 || dy <= 0 || Math.hypot(dx, dy) <= r - webMm;
+  }));
+}
+
+/**
+ * Rectangular jig size in mm: width and height are padded and rounded up to
+ * the next 10mm independently. With a corner radius the plate then grows in
+ * 10mm steps until every cutout keeps minWebMm to the rounded corners.
+ */
+export function computeLayoutRectSizeMm(
+  cutoutsMm: Point[][],
+  cornerRadiusMm = 0,
+  minWebMm = 0
+): { width: number; height: number } {
+  const { minX, minY, maxX, maxY } = getBounds(cutoutsMm);
+  let width = Math.ceil((maxX - minX + 20) / 10) * 10;
+  let height = Math.ceil((maxY - minY + 20) / 10) * 10;
+  if (cornerRadiusMm <= 0) return { width, height };
+  while (!clearsCorners(cutoutsMm, width, height, cornerRadiusMm, minWebMm)) {
+    width += 10;
+    height += 10;
+  }
+  return { width, height };
+}
+
+/**
+ * Circular jig diameter in mm: the circle around the origin that clears every
+ * cutout point by the usual padding, rounded up to the next 10mm.
+ */
+export function computeLayoutCircleSizeMm(cutoutsMm: Point[][]): number {
+  const radius = Math.max(...cutoutsMm.flat().map(p => Math.hypot(p.x, p.y)));
+  return Math.ceil((2 * radius + 20) / 10) * 10;
+}
+
+function translated(group: Point[][], dx: number, dy: number): Point[][] {
+  return group.map(pts => pts.map(p => ({ x: p.x + dx, y: p.y + dy })));
+}
+
+function groupGap(a: Point[][], b: Point[][]): number {
+  let best = Infinity;
+  for (const pa of a) {
+    for (const pb of b) best = Math.min(best, polygonGap(pa, pb));
+  }
+  return best;
+}
+
+export interface BedSlot {
+  index: number; // 1-based slot number
+  cutouts: Point[][];
+  labelAt: Point; // baseline-left of the slot number
+}
+
+/**
+ * Pack as many copies of a cutout group as fit on the bed, in a grid that
+ * is tightened horizontally to the spacing. Tries a 90° turn if allowed and
+ * keeps whichever orientation fits more copies. Coordinates are in mm,
+ * centered on the bed, Y down.
+ */
+export function nestOnBed(unit: Point[][], bed: BedArrayConfig): BedSlot[] {
+  const orientations = [unit];
+  if (bed.allowRotation) {
+    orientations.push(unit.map(pts => pts.map(p => ({ x: -p.y, y: p.x }))));
+  }
+
+  const usableW = bed.bedWidthMm - 2 * BED_MARGIN_MM;
+  const usableH = bed.bedHeightMm - 2 * BED_MARGIN_MM;
+  let best: BedSlot[] = [];
+
+  for (const group of orientations) {
+    const b = getBounds(group);
+    const unitW = b.maxX - b.minX;
+    const unitH = b.maxY - b.minY + SLOT_LABEL_MM;
+    if (unitW > usableW || unitH > usableH) continue;
+
+    // Smallest horizontal pitch that still keeps the spacing between neighbours
+    let lo = 0, hi = unitW + bed.spacingMm;
+    for (let i = 0; i < 16; i++) {
+      const mid = (lo + hi) / 2;
+      if (groupGap(group, translated(group, mid, 0)) >= bed.spacingMm) hi = mid;
+      else lo = mid;
+    }
+    const pitchY = unitH + bed.spacingMm;
+
+    // Each slot number must clear the next one along its row, so narrow parts
+    // spread out to the widest number's advance. More digits can only mean
+    // fewer slots, so this settles.
+    let digits = 1, pitchX = hi, slotW = unitW, cols = 0, rows = 0;
+    for (;;) {
+      pitchX = Math.max(hi, digits * (SLOT_DIGIT_MM.width + SLOT_DIGIT_MM.gap));
+      slotW = Math.max(unitW, slotLabelWidthMm('8'.repeat(digits)));
+      cols = slotW > usableW ? 0 : Math.floor((usableW - slotW) / pitchX) + 1;
+      rows = Math.floor((usableH - unitH) / pitchY) + 1;
+      if (String(cols * rows).length <= digits) break;
+      digits++;
+    }
+    if (cols * rows <= best.length) continue;
+
+    // Center the grid on the bed
+    const gridW = slotW + (cols - 1) * pitchX;
+    const gridH = unitH + (rows - 1) * pitchY;
+    const originX = -gridW / 2 - b.minX;
+    const originY = -gridH / 2 + SLOT_LABEL_MM - b.minY;
+
+    const slots: BedSlot[] = [];
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const dx = originX + c * pitchX;
+        const dy = originY + r * pitchY;
+        slots.push({
+          index: slots.length + 1,
+          cutouts: translated(group, dx, dy),
+          labelAt: { x: b.minX + dx, y: b.minY + dy - 1 },
+        });
+      }
+    }
+    best = slots;
+  }
+
+  return best;
+}
+
+export interface JigPlate {
+  widthMm: number;
+  heightMm: number;
+  hasCorners: boolean; // sharp corners to put alignment crosshairs in
+  outline: Point[]; // outer border in mm, centered on the origin, Y down
+  cutouts: Point[][]; // cutouts in mm, same frame as outline
+  labels: { text: string; at: Point }[]; // slot numbers (bed array only)
+}
+
+export const JIG_SHAPE_LABELS: Record<JigShape, string> = {
+  square: 'Square',
+  rectangle: 'Rectangle',
+  rounded: 'Rounded rectangle',
+  circle: 'Circle',
+};
+
+/**
+ * Short description of the outer shape for the UI, e.g. "Circle Ø120 mm".
+ */
+export function describeJigShape(config: JigConfig): string {
+  const { width, height } = getJigSizeMm(config);
+  if (config.bedArray) return `Bed plate ${width} × ${height} mm`;
+  if (config.outerShape === 'circle') return `Circle Ø${width} mm`;
+  const corner = config.outerShape === 'rounded' ? `, r${config.cornerRadiusMm}` : '';
+  return `${JIG_SHAPE_LABELS[config.outerShape]} ${width} × ${height} mm${corner}`;
+}
+
+/**
+ * Outer size of the jig in mm: the bounding box of its outer shape, or the bed.
+ */
+export function getJigSizeMm(config: JigConfig): { width: number; height: number } {
+  if (config.bedArray) {
+    return { width: config.bedArray.bedWidthMm, height: config.bedArray.bedHeightMm };
+  }
+  if (config.outerShape === 'rectangle' || config.outerShape === 'rounded') {
+    return { width: config.jigWidthMm, height: config.jigHeightMm };
+  }
+  return { width: config.jigSizeMm, height: config.jigSizeMm };
+}
+
+const ARC_SEGMENTS = 96; // per full turn
+
+// Quarter circle from fromAngle, clockwise on screen (Y down)
+function quarterArc(cx: number, cy: number, r: number, fromAngle: number): Point[] {
+  const steps = ARC_SEGMENTS / 4;
+  const pts: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const a = fromAngle + (i / steps) * (Math.PI / 2);
+    pts.push({ x: cx + r * Math.cos(a), y: cy + r * Math.sin(a) });
+  }
+  return pts;
+}
+
+/**
+ * Outer border of the jig in mm, centered on the origin, Y down.
+ */
+export function jigOutline(config: JigConfig): Point[] {
+  const { width, height } = getJigSizeMm(config);
+  const hw = width / 2, hh = height / 2;
+  const shape = config.bedArray ? 'rectangle' : config.outerShape;
+
+  if (shape === 'circle') {
+    return Array.from({ length: ARC_SEGMENTS }, (_, i) => {
+      const a = (i / ARC_SEGMENTS) * Math.PI * 2;
+      return { x: hw * Math.cos(a), y: hw * Math.sin(a) };
+    });
+  }
+
+  const r = shape === 'rounded' ? Math.min(config.cornerRadiusMm, hw, hh) : 0;
+  if (r <= 0) {
+    return [
+      { x: -hw, y: -hh },
+      { x: hw, y: -hh },
+      { x: hw, y: hh },
+      { x: -hw, y: hh },
+    ];
+  }
+
+  const pts = [
+    ...quarterArc(-hw + r, -hh + r, r, Math.PI),
+    ...quarterArc(hw - r, -hh + r, r, -Math.PI / 2),
+    ...quarterArc(hw - r, hh - r, r, 0),
+    ...quarterArc(-hw + r, hh - r, r, Math.PI / 2),
+  ];
+  // A radius of half a side makes neighbouring arcs meet; drop the repeats
+  return pts.filter((p, i) => {
+    const q = pts[(i + 1) % pts.length];
+    return Math.hypot(p.x - q.x, p.y - q.y) > 1e-6;
+  });
+}
+
+/**
+ * Grow (or shrink) each contour by the clearance, in image pixels. A negative
+ * clearance can pinch a shape apart; each piece becomes its own contour, and
+ * clicked notches stay with the largest. A tangled outline is passed on as-is
+ * so the export step still refuses it.
+ */
+export function offsetContours(contours: Contour[], distancePx: number): Contour[] {
+  if (distancePx === 0) return contours;
+  return contours.flatMap(c => {
+    if (validateContour(c.points).length > 0) return [c];
+    return offsetPolygon(c.points, distancePx)
+      .map(points => {
+        let area = 0;
+        for (let i = 0; i < points.length; i++) {
+          const j = (i + 1) % points.length;
+          area += points[i].x * points[j].y - points[j].x * points[i].y;
+        }
+        return { points, area: Math.abs(area) / 2 };
+      })
+      .sort((a, b) => b.area - a.area)
+      .map((piece, i) => (i === 0 && c.notches?.length ? { ...piece, notches: c.notches } : piece));
+  });
+}
+
+/**
+ * Refit a jig config to the current contours and machine settings: the outer
+ * size follows the cutout layout, the thickness and bed the settings. The
+ * Configure step builds the config, but the contours' clearance and the
+ * profile can still change afterwards.
+ */
+export function fitJigConfig(
+  config: JigConfig,
+  contours: Contour[],
+  pixelsPerMm: number,
+  machine: MachineSettings
+): JigConfig {
+  const layout = layoutCutoutsMm(applyFingerNotches(contours, config.fingerNotches, pixelsPerMm), pixelsPerMm, config.minWebMm);
+  const rect = computeLayoutRectSizeMm(layout, config.outerShape === 'rounded' ? config.cornerRadiusMm : 0, config.minWebMm);
+  return {
+    ...config,
+    extrudeHeightMm: machine.thicknessMm,
+    // Pocket has to leave at least some floor
+    pocketDepthMm: config.pocketDepthMm === undefined ? undefined : Math.min(config.pocketDepthMm, machine.thicknessMm - 0.5),
+    jigSizeMm: config.outerShape === 'circle' ? computeLayoutCircleSizeMm(layout) : computeLayoutJigSizeMm(layout),
+    jigWidthMm: rect.width,
+    jigHeightMm: rect.height,
+    bedArray: config.bedArray && { ...config.bedArray, bedWidthMm: machine.bedWidthMm, bedHeightMm: machine.bedHeightMm },
+  };
+}
+
+/**
+ * Compensate a plate for laser kerf: the beam removes kerf/2 on each side of
+ * the path, so cutouts are drawn kerf/2 smaller and the border kerf/2 larger.
+ */
+export function applyKerf(plate: JigPlate, kerfMm: number): JigPlate {
+  if (kerfMm <= 0) return plate;
+  return {
+    ...plate,
+    outline: offsetOutline(plate.outline, kerfMm / 2),
+    // A narrow neck can pinch shut, leaving a cutout in separate pieces
+    cutouts: plate.cutouts.flatMap(pts => offsetPolygon(pts, -kerfMm / 2)),
+  };
+}
+
+/**
+ * Build the jig geometry in mm shared by every exporter and preview.
+ */
+export function buildJigPlate(
+  contours: Contour[],
+  config: JigConfig,
+  pixelsPerMm: number
+): JigPlate {
+  const unit = layoutCutoutsMm(applyFingerNotches(contours, config.fingerNotches, pixelsPerMm), pixelsPerMm, config.minWebMm);
+  const { width, height } = getJigSizeMm(config);
+  const slots = config.bedArray ? nestOnBed(unit, config.bedArray) : [];
+  const outline = jigOutline(config);
+  return {
+    widthMm: width,
+    heightMm: height,
+    hasCorners: outline.length === 4,
+    outline,
+    cutouts: config.bedArray ? slots.flatMap(s => s.cutouts) : unit,
+    labels: slots.map(s => ({ text: String(s.index), at: s.labelAt })),
+  };
+}
+
+/**
+ * Slot numbers that would overlap each other, a cutout or the plate's edge,
+ * so the raised digits would merge into a broken mesh and the engraved text
+ * would run together. Empty when they all fit.
+ */
+export function crowdedSlotLabels(plate: JigPlate): number[] {
+  const hw = plate.widthMm / 2, hh = plate.heightMm / 2;
+  // Labels and cutout bounds in one list, swept left to right
+  const boxes = [
+    ...plate.labels.map((l, i) => ({
+      label: i,
+      minX: l.at.x, maxX: l.at.x + slotLabelWidthMm(l.text),
+      minY: l.at.y - SLOT_DIGIT_MM.height, maxY: l.at.y,
+    })),
+    ...plate.cutouts.map(pts => ({ label: -1, ...getBounds([pts]) })),
+  ].sort((a, b) => a.minX - b.minX);
+
+  const crowded = new Set<number>();
+  const mark = (label: number) => { if (label >= 0) crowded.add(label); };
+  boxes.forEach((box, i) => {
+    if (box.minX < -hw || box.maxX > hw || box.minY < -hh || box.maxY > hh) mark(box.label);
+    for (let j = i + 1; j < boxes.length && boxes[j].minX < box.maxX; j++) {
+      const other = boxes[j];
+      if (box.label < 0 && other.label < 0) continue;
+      if (box.minY < other.maxY && other.minY < box.maxY) {
+        mark(box.label);
+        mark(other.label);
+      }
+    }
+  });
+  return [...crowded].sort((a, b) => a - b).map(i => Number(plate.labels[i].text));
+}
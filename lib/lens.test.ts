@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { Point } from './types';
+import { fitLens, lensMatches, type CalibrationPhoto } from './lens';
+
+const WIDTH = 4000;
+const HEIGHT = 3000;
+
+// Where the lens puts a point, using the same model lens.ts removes
+function distort(p: Point, k1: number, k2: number): Point {
+  const f = Math.max(WIDTH, HEIGHT);
+  const cx = (WIDTH - 1) / 2, cy = (HEIGHT - 1) / 2;
+  const x = (p.x - cx) / f, y = (p.y - cy) / f;
+  const r2 = x * x + y * y;
+  const s = 1 + k1 * r2 + k2 * r2 * r2;
+  return { x: cx + x * s * f, y: cy + y * s * f };
+}
+
+// Rows and columns of a 9 × 7 corner grid, placed and turned in the frame
+function boardPhoto(k1: number, k2: number, left: number, top: number, step: number, angle: number): CalibrationPhoto {
+  const c = Math.cos(angle), s = Math.sin(angle);
+  const corner = (i: number, j: number) =>
+    distort({ x: left + c * i * step - s * j * step, y: top + s * i * step + c * j * step }, k1, k2);
+  const lines: Point[][] = [];
+  for (let j = 0; j < 7; j++) lines.push(Array.from({ length: 9 }, (_, i) => corner(i, j)));
+  for (let i = 0; i < 9; i++) lines.push(Array.from({ length: 7 }, (_, j) => corner(i, j)));
+  return { width: WIDTH, height: HEIGHT, lines };
+}
+
+function boardPhotos(k1: number, k2: number): CalibrationPhoto[] {
+  return [
+    boardPhoto(k1, k2, 300, 200, 400, 0),
+    boardPhoto(k1, k2, 200, 150, 450, 0.1),
+    boardPhoto(k1, k2, 500, 300, 350, -0.15),
+  ];
+}
+
+describe('fitLens', () => {
+  it('recovers barrel distortion from bent rows and columns', () => {
+    const fit = fitLens(boardPhotos(-0.12, 0.03));
+    expect(fit.k1).toBeCloseTo(-0.12, 3);
+    expect(fit.k2).toBeCloseTo(0.03, 3);
+    expect(fit.aspect).toBeCloseTo(4 / 3, 6);
+    expect(fit.lines).toBe(48);
+    expect(fit.beforePx).toBeGreaterThan(1);
+    expect(fit.afterPx).toBeLessThan(0.01);
+  });
+
+  it('recovers pincushion distortion', () => {
+    const fit = fitLens(boardPhotos(0.08, -0.02));
+    expect(fit.k1).toBeCloseTo(0.08, 3);
+    expect(fit.k2).toBeCloseTo(-0.02, 3);
+  });
+
+  it('leaves a straight board alone and reports a finite error', () => {
+    const fit = fitLens(boardPhotos(0, 0));
+    expect(Math.abs(fit.k1)).toBeLessThan(1e-3);
+    expect(Math.abs(fit.k2)).toBeLessThan(1e-3);
+    expect(Number.isFinite(fit.beforePx)).toBe(true);
+    expect(Number.isFinite(fit.afterPx)).toBe(true);
+    expect(fit.afterPx).toBeLessThan(0.01);
+  });
+
+  it('refuses photos of different shapes', () => {
+    const photos = boardPhotos(-0.1, 0);
+    photos[1] = { ...photos[1], height: WIDTH };
+    expect(() => fitLens(photos)).toThrow(/different shapes/);
+  });
+
+  it('needs enough rows and columns', () => {
+    const photo = boardPhotos(-0.1, 0)[0];
+    expect(() => fitLens([{ ...photo, lines: photo.lines.slice(0, 5) }])).toThrow(/at least 8/);
+  });
+});
+
+describe('lensMatches', () => {
+  it('applies to photos of the calibrated shape either way up', () => {
+    const camera = { id: 'phone', name: 'Phone', k1: -0.1, k2: 0, aspect: 4 / 3 };
+    expect(lensMatches(camera, 4000, 3000)).toBe(true);
+    expect(lensMatches(camera, 3000, 4000)).toBe(true);
+    expect(lensMatches(camera, 4000, 2250)).toBe(false);
+  });
+});
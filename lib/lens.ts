@@ -0,0 +1,229 @@
+import type { Point, CameraProfile } from './types';
+import { runCvJob, imageToBitmap, type CvJobOptions } from './opencv-client';
+
+// Lens distortion: fitting it from checkerboard photos and removing it from
+// uploads. A point at distance r from the image centre, in units of the longer
+// side, is photographed at r·(1 + k1·r² + k2·r⁴) — OpenCV's radial model with
+// the principal point at the centre and no tangential terms. Fitting only asks
+// that the board's rows and columns come out straight (the plumb-line method),
+// so the board's size and square count don't matter. The bundled OpenCV.js
+// has no findChessboardCorners or calibrateCamera, so the fit is done here;
+// OpenCV only applies it (cv.undistort).
+
+const MIN_LINES = 8; // checkerboard rows and columns needed across all photos
+const ASPECT_TOLERANCE = 0.02; // photos (and uploads) must share the calibration's shape to within this
+const UNDISTORT_ITERATIONS = 20;
+const FIT_ITERATIONS = 400;
+const FIT_STEP = 0.05; // starting simplex size for k1 and k2
+const BOARD_COLUMNS = 7; // printable board: 6 × 9 inner corners
+const BOARD_ROWS = 10;
+const BOARD_SQUARE_MM = 25;
+
+export interface CalibrationPhoto {
+  width: number;
+  height: number;
+  lines: Point[][]; // checkerboard rows and columns, in the photo's pixels
+}
+
+export interface LensFit {
+  k1: number;
+  k2: number;
+  aspect: number;
+  lines: number;
+  // RMS distance of the corners from their row's straight line, in photo pixels
+  beforePx: number;
+  afterPx: number;
+}
+
+function aspectOf(width: number, height: number): number {
+  return Math.max(width, height) / Math.min(width, height);
+}
+
+function toNormalized(p: Point, width: number, height: number): Point {
+  const f = Math.max(width, height);
+  return { x: (p.x - (width - 1) / 2) / f, y: (p.y - (height - 1) / 2) / f };
+}
+
+// Where a photographed (distorted) point really is, by fixed-point iteration
+function undistortPoint(p: Point, k1: number, k2: number): Point {
+  let u = p;
+  for (let i = 0; i < UNDISTORT_ITERATIONS; i++) {
+    const r2 = u.x * u.x + u.y * u.y;
+    const factor = 1 + k1 * r2 + k2 * r2 * r2;
+    u = { x: p.x / factor, y: p.y / factor };
+  }
+  return u;
+}
+
+// Variance of points across and along their best-fit line
+function lineSpread(points: Point[]): { across: number; along: number } {
+  const n = points.length;
+  const mx = points.reduce((s, p) => s + p.x, 0) / n;
+  const my = points.reduce((s, p) => s + p.y, 0) / n;
+  let sxx = 0, syy = 0, sxy = 0;
+  for (const p of points) {
+    sxx += (p.x - mx) ** 2;
+    syy += (p.y - my) ** 2;
+    sxy += (p.x - mx) * (p.y - my);
+  }
+  const half = (sxx + syy) / (2 * n);
+  const d = Math.sqrt(((sxx - syy) / (2 * n)) ** 2 + (sxy / n) ** 2);
+  // Rounding can leave a straight line a hair below zero, which would poison the RMS
+  return { across: Math.max(0, half - d), along: half + d };
+}
+
+// Mean bend of the lines relative to their length, so shrinking the image doesn't pay
+function crookedness(lines: Point[][], k1: number, k2: number): number {
+  let total = 0;
+  for (const line of lines) {
+    const { across, along } = lineSpread(line.map(p => undistortPoint(p, k1, k2)));
+    total += across / along;
+  }
+  return total / lines.length;
+}
+
+function straightnessPx(photos: CalibrationPhoto[], k1: number, k2: number): number {
+  let sum = 0, count = 0;
+  for (const photo of photos) {
+    const f = Math.max(photo.width, photo.height);
+    for (const line of photo.lines) {
+      const undistorted = line.map(p => undistortPoint(toNormalized(p, photo.width, photo.height), k1, k2));
+      sum += lineSpread(undistorted).across * line.length * f * f;
+      count += line.length;
+    }
+  }
+  return Math.sqrt(sum / count);
+}
+
+// Nelder–Mead simplex search
+function minimize(cost: (v: number[]) => number, start: number[], step: number): number[] {
+  const evaluate = (point: number[]) => ({ point, value: cost(point) });
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + step : v)))].map(evaluate);
+  const last = simplex.length - 1;
+
+  for (let it = 0; it < FIT_ITERATIONS; it++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0], worst = simplex[last];
+    const centroid = start.map((_, j) => simplex.slice(0, last).reduce((s, v) => s + v.point[j], 0) / last);
+    const along = (t: number) => evaluate(centroid.map((c, j) => c + t * (worst.point[j] - c)));
+
+    const reflected = along(-1);
+    if (reflected.value < best.value) {
+      const expanded = along(-2);
+      simplex[last] = expanded.value < reflected.value ? expanded : reflected;
+    } else if (reflected.value < simplex[last - 1].value) {
+      simplex[last] = reflected;
+    } else {
+      const contracted = along(0.5);
+      if (contracted.value < worst.value) simplex[last] = contracted;
+      else simplex = simplex.map((v, i) => (i === 0 ? v : evaluate(v.point.map((x, j) => (x + best.point[j]) / 2))));
+    }
+  }
+  simplex.sort((a, b) => a.value - b.value);
+  return simplex[0].point;
+}
+
+// The model must keep moving points outwards all the way to the image's corners
+function isMonotonic(k1: number, k2: number, rMax: number): boolean {
+  for (let i = 0; i <= 20; i++) {
+    const r2 = (rMax * i / 20) ** 2;
+    if (1 + 3 * k1 * r2 + 5 * k2 * r2 * r2 <= 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Fit k1 and k2 so the checkerboard's rows and columns are straight in every
+ * photo. Throws with a message for the user if the photos can't support a fit.
+ */
+export function fitLens(photos: CalibrationPhoto[]): LensFit {
+  const aspects = photos.map(p => aspectOf(p.width, p.height));
+  const aspect = aspects[0];
+  if (aspects.some(a => Math.abs(a - aspect) > ASPECT_TOLERANCE * aspect)) {
+    throw new Error('The photos have different shapes; take them all with the same camera and zoom');
+  }
+  const lines = photos.flatMap(p => p.lines.map(line => line.map(q => toNormalized(q, p.width, p.height))));
+  if (lines.length < MIN_LINES) {
+    throw new Error(`Found ${lines.length} checkerboard rows and columns; at least ${MIN_LINES} are needed`);
+  }
+
+  const [k1, k2] = minimize(([a, b]) => crookedness(lines, a, b), [0, 0], FIT_STEP);
+  if (!isMonotonic(k1, k2, Math.sqrt(1 + 1 / (aspect * aspect)) / 2)) {
+    throw new Error('The fit doesn\'t hold out to the corners; retake the photos with the board reaching the edges');
+  }
+  return {
+    k1,
+    k2,
+    aspect,
+    lines: lines.length,
+    beforePx: straightnessPx(photos, 0, 0),
+    afterPx: straightnessPx(photos, k1, k2),
+  };
+}
+
+// A profile only applies to photos of the shape it was fitted on (either way up)
+export function lensMatches(camera: CameraProfile, width: number, height: number): boolean {
+  return Math.abs(aspectOf(width, height) - camera.aspect) <= ASPECT_TOLERANCE * camera.aspect;
+}
+
+// Rows and columns of a checkerboard photo, in its pixels
+export async function findCheckerboard(imageElement: HTMLImageElement, options: CvJobOptions = {}): Promise<Point[][]> {
+  const { image, scale } = await imageToBitmap(imageElement);
+  return runCvJob({ kind: 'checkerboard', image, scale }, options);
+}
+
+/**
+ * Remove a camera's distortion from a full-resolution photo, returned as a new
+ * image of the same size.
+ */
+export async function undistortPhoto(
+  imageElement: HTMLImageElement,
+  camera: CameraProfile,
+  options: CvJobOptions = {}
+): Promise<HTMLImageElement> {
+  const { image } = await imageToBitmap(imageElement, Infinity);
+  const undistorted = await runCvJob({ kind: 'undistort', image, k1: camera.k1, k2: camera.k2 }, options);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = undistorted.width;
+  canvas.height = undistorted.height;
+  canvas.getContext('2d')!.putImageData(undistorted, 0, 0);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.95));
+  if (!blob) throw new Error('Failed to encode the corrected photo');
+
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error('Failed to load the corrected photo'));
+      img.src = url;
+    });
+    return img;
+  } finally {
+    URL.revokeObjectURL(url); // the loaded image keeps its pixels
+  }
+}
+
+// A checkerboard to print at 100% on Letter or A4
+export function checkerboardSvg(): string {
+  const pageW = 215.9, pageH = 279.4;
+  const x0 = (pageW - BOARD_COLUMNS * BOARD_SQUARE_MM) / 2;
+  const y0 = (pageH - BOARD_ROWS * BOARD_SQUARE_MM) / 2;
+  const squares: string[] = [];
+  for (let row = 0; row < BOARD_ROWS; row++) {
+    for (let col = 0; col < BOARD_COLUMNS; col++) {
+      if ((row + col) % 2 === 1) continue;
+      const x = x0 + col * BOARD_SQUARE_MM, y = y0 + row * BOARD_SQUARE_MM;
+      squares.push(`<rect x="${x.toFixed(2)}" y="${y.toFixed(2)}" width="${BOARD_SQUARE_MM}" height="${BOARD_SQUARE_MM}"/>`);
+    }
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${pageW}mm" height="${pageH}mm" viewBox="0 0 ${pageW} ${pageH}">
+  <rect width="${pageW}" height="${pageH}" fill="white"/>
+  <g fill="black">
+    ${squares.join('\n    ')}
+  </g>
+</svg>
+`;
+}
@@ -0,0 +1,235 @@
+import type { Triangle, Vec3 } from './stl-export';
+
+const DEGENERATE_AREA_MM2 = 1e-9;
+const HIT_EPSILON = 1e-9;
+// Odd direction for inside tests, so the ray doesn't run along the mesh's axis-aligned faces
+const RAY = { x: 0.3137, y: 0.5121, z: 0.7995 };
+
+export interface MeshReport {
+  triangleCount: number;
+  volumeMm3: number;
+  bounds: { min: Vec3; max: Vec3 };
+  openEdges: number; // used by a single triangle
+  nonManifoldEdges: number; // shared by more than two triangles
+  inconsistentEdges: number; // both triangles run the edge the same way
+  degenerateTriangles: number; // zero area, or two corners in the same place
+  flippedNormals: number; // stored normal points against the winding
+  intersectingShells: number; // closed parts that cut into or sit inside another
+  issues: string[];
+  watertight: boolean;
+}
+
+// Slicers compare vertices as the float32 values in the file, so do the same
+function vertexKey(v: Vec3): string {
+  return `${Math.fround(v.x)},${Math.fround(v.y)},${Math.fround(v.z)}`;
+}
+
+interface Box {
+  min: Vec3;
+  max: Vec3;
+}
+
+function boxOf(triangles: Triangle[]): Box {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (const t of triangles) {
+    for (const v of [t.v1, t.v2, t.v3]) {
+      min.x = Math.min(min.x, v.x); min.y = Math.min(min.y, v.y); min.z = Math.min(min.z, v.z);
+      max.x = Math.max(max.x, v.x); max.y = Math.max(max.y, v.y); max.z = Math.max(max.z, v.z);
+    }
+  }
+  return { min, max };
+}
+
+function boxesOverlap(a: Box, b: Box): boolean {
+  return a.min.x <= b.max.x && b.min.x <= a.max.x &&
+    a.min.y <= b.max.y && b.min.y <= a.max.y &&
+    a.min.z <= b.max.z && b.min.z <= a.max.z;
+}
+
+// Where the ray from origin along dir meets the triangle, as a multiple of
+// dir (Möller–Trumbore), or null if it misses
+function rayHit(origin: Vec3, dir: Vec3, t: Triangle): number | null {
+  const e1 = { x: t.v2.x - t.v1.x, y: t.v2.y - t.v1.y, z: t.v2.z - t.v1.z };
+  const e2 = { x: t.v3.x - t.v1.x, y: t.v3.y - t.v1.y, z: t.v3.z - t.v1.z };
+  const px = dir.y * e2.z - dir.z * e2.y, py = dir.z * e2.x - dir.x * e2.z, pz = dir.x * e2.y - dir.y * e2.x;
+  const det = e1.x * px + e1.y * py + e1.z * pz;
+  if (Math.abs(det) < 1e-12) return null;
+  const sx = origin.x - t.v1.x, sy = origin.y - t.v1.y, sz = origin.z - t.v1.z;
+  const u = (sx * px + sy * py + sz * pz) / det;
+  if (u < -HIT_EPSILON || u > 1 + HIT_EPSILON) return null;
+  const qx = sy * e1.z - sz * e1.y, qy = sz * e1.x - sx * e1.z, qz = sx * e1.y - sy * e1.x;
+  const v = (dir.x * qx + dir.y * qy + dir.z * qz) / det;
+  if (v < -HIT_EPSILON || u + v > 1 + HIT_EPSILON) return null;
+  return (e2.x * qx + e2.y * qy + e2.z * qz) / det;
+}
+
+// Whether any edge of one triangle passes through the other. Edges that only
+// touch at their ends don't count.
+function trianglesCross(a: Triangle, b: Triangle): boolean {
+  const crosses = (from: Triangle, to: Triangle) => {
+    const corners = [from.v1, from.v2, from.v3];
+    return corners.some((p, i) => {
+      const q = corners[(i + 1) % 3];
+      const t = rayHit(p, { x: q.x - p.x, y: q.y - p.y, z: q.z - p.z }, to);
+      return t !== null && t > HIT_EPSILON && t < 1 - HIT_EPSILON;
+    });
+  };
+  return crosses(a, b) || crosses(b, a);
+}
+
+// Even-odd test against a closed shell
+function isInside(p: Vec3, shell: Triangle[]): boolean {
+  let hits = 0;
+  for (const t of shell) {
+    const d = rayHit(p, RAY, t);
+    if (d !== null && d > HIT_EPSILON) hits++;
+  }
+  return hits % 2 === 1;
+}
+
+function shellsIntersect(a: { triangles: Triangle[]; box: Box }, b: { triangles: Triangle[]; box: Box }): boolean {
+  if (!boxesOverlap(a.box, b.box)) return false;
+  const near = b.triangles.map(t => ({ t, box: boxOf([t]) }));
+  for (const ta of a.triangles) {
+    const boxA = boxOf([ta]);
+    if (!boxesOverlap(boxA, b.box)) continue;
+    if (near.some(({ t, box }) => boxesOverlap(boxA, box) && trianglesCross(ta, t))) return true;
+  }
+  // No surfaces cross, but one part may still sit wholly inside the other
+  return isInside(a.triangles[0].v1, b.triangles) || isInside(b.triangles[0].v1, a.triangles);
+}
+
+/**
+ * Split a mesh into shells (triangles joined through shared edges) and count
+ * those that cut into or sit inside another. Overlapping shells make slicers
+ * guess, and count the shared volume twice.
+ */
+function countIntersectingShells(triangles: Triangle[], edgeKeys: string[][]): number {
+  const parent = triangles.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  const firstWithEdge = new Map<string, number>();
+  edgeKeys.forEach((keys, i) => {
+    for (const key of keys) {
+      const j = firstWithEdge.get(key);
+      if (j === undefined) firstWithEdge.set(key, i);
+      else parent[find(i)] = find(j);
+    }
+  });
+
+  const groups = new Map<number, Triangle[]>();
+  triangles.forEach((t, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) group.push(t);
+    else groups.set(root, [t]);
+  });
+  if (groups.size < 2) return 0;
+
+  const shells = [...groups.values()].map(tris => ({ triangles: tris, box: boxOf(tris) }));
+  const hit = new Set<number>();
+  for (let i = 0; i < shells.length; i++) {
+    for (let j = i + 1; j < shells.length; j++) {
+      if (shellsIntersect(shells[i], shells[j])) {
+        hit.add(i);
+        hit.add(j);
+      }
+    }
+  }
+  return hit.size;
+}
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+/**
+ * Check a triangle mesh the way a slicer would: every edge shared by exactly
+ * two triangles running it in opposite directions, no zero-area triangles,
+ * stored normals that agree with the winding, and no separate shells cutting
+ * into each other. Also reports the volume (negative if the mesh is inside
+ * out) and bounding box.
+ */
+export function checkMesh(triangles: Triangle[]): MeshReport {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  const edges = new Map<string, { count: number; forward: number }>();
+  let volume = 0;
+  let degenerateTriangles = 0;
+  let flippedNormals = 0;
+  const edgeKeys: string[][] = [];
+
+  for (const t of triangles) {
+    const corners = [t.v1, t.v2, t.v3];
+    for (const v of corners) {
+      min.x = Math.min(min.x, v.x); min.y = Math.min(min.y, v.y); min.z = Math.min(min.z, v.z);
+      max.x = Math.max(max.x, v.x); max.y = Math.max(max.y, v.y); max.z = Math.max(max.z, v.z);
+    }
+
+    // Signed volume of the tetrahedron to the origin
+    volume += (
+      t.v1.x * (t.v2.y * t.v3.z - t.v2.z * t.v3.y) -
+      t.v1.y * (t.v2.x * t.v3.z - t.v2.z * t.v3.x) +
+      t.v1.z * (t.v2.x * t.v3.y - t.v2.y * t.v3.x)
+    ) / 6;
+
+    const ax = t.v2.x - t.v1.x, ay = t.v2.y - t.v1.y, az = t.v2.z - t.v1.z;
+    const bx = t.v3.x - t.v1.x, by = t.v3.y - t.v1.y, bz = t.v3.z - t.v1.z;
+    const nx = ay * bz - az * by, ny = az * bx - ax * bz, nz = ax * by - ay * bx;
+    const keys = corners.map(vertexKey);
+    if (Math.hypot(nx, ny, nz) / 2 < DEGENERATE_AREA_MM2 || new Set(keys).size < 3) {
+      degenerateTriangles++;
+    } else if (nx * t.normal.x + ny * t.normal.y + nz * t.normal.z < 0) {
+      flippedNormals++;
+    }
+
+    // Undirected edge key, remembering which way this triangle runs it
+    const triangleEdges: string[] = [];
+    edgeKeys.push(triangleEdges);
+    for (let i = 0; i < 3; i++) {
+      const a = keys[i], b = keys[(i + 1) % 3];
+      if (a === b) continue;
+      const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+      triangleEdges.push(key);
+      const entry = edges.get(key) ?? { count: 0, forward: 0 };
+      entry.count++;
+      if (a < b) entry.forward++;
+      edges.set(key, entry);
+    }
+  }
+
+  let openEdges = 0, nonManifoldEdges = 0, inconsistentEdges = 0;
+  edges.forEach(({ count, forward }) => {
+    if (count === 1) openEdges++;
+    else if (count > 2) nonManifoldEdges++;
+    else if (forward !== 1) inconsistentEdges++;
+  });
+
+  const intersectingShells = countIntersectingShells(triangles, edgeKeys);
+
+  const issues: string[] = [];
+  if (openEdges) issues.push(`${plural(openEdges, 'open edge', 'open edges')} (holes in the surface)`);
+  if (nonManifoldEdges) issues.push(`${plural(nonManifoldEdges, 'edge', 'edges')} shared by more than two faces`);
+  if (inconsistentEdges) issues.push(`${plural(inconsistentEdges, 'edge', 'edges')} between faces wound in opposite directions`);
+  if (degenerateTriangles) issues.push(plural(degenerateTriangles, 'degenerate triangle', 'degenerate triangles'));
+  if (flippedNormals) issues.push(`${plural(flippedNormals, 'normal', 'normals')} pointing against the winding`);
+  if (intersectingShells) issues.push(`${plural(intersectingShells, 'part', 'parts')} overlapping another (volume counted twice)`);
+  if (volume < 0) issues.push('Mesh is inside out (negative volume)');
+
+  return {
+    triangleCount: triangles.length,
+    volumeMm3: volume,
+    bounds: triangles.length ? { min, max } : { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } },
+    openEdges,
+    nonManifoldEdges,
+    inconsistentEdges,
+    degenerateTriangles,
+    flippedNormals,
+    intersectingShells,
+    issues,
+    watertight: openEdges === 0 && nonManifoldEdges === 0 && inconsistentEdges === 0,
+  };
+}
@@ -0,0 +1,65 @@
+// Main-thread side of the mesh worker: builds and checks the jig's 3D mesh
+// without freezing the page. A new check cancels the one in flight.
+import type { Contour, JigConfig } from './types';
+import type { MeshReport } from './mesh-check';
+
+export interface MeshRequest {
+  id: number;
+  contours: Contour[];
+  config: JigConfig;
+  pixelsPerMm: number;
+}
+
+export type MeshResponse =
+  | { id: number; type: 'done'; report: MeshReport }
+  | { id: number; type: 'error'; message: string };
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+
+/**
+ * Build the jig mesh on the worker and check it (see checkMesh). Aborting
+ * stops the worker outright, since a check can't be interrupted part way.
+ */
+export function checkJigMesh(
+  contours: Contour[],
+  config: JigConfig,
+  pixelsPerMm: number,
+  signal?: AbortSignal
+): Promise<MeshReport> {
+  if (signal?.aborted) return Promise.reject(new DOMException('Mesh check cancelled', 'AbortError'));
+  worker ??= new Worker(new URL('./mesh.worker.ts', import.meta.url));
+  const target = worker;
+  const id = nextJobId++;
+
+  return new Promise<MeshReport>((resolve, reject) => {
+    const finish = () => {
+      target.removeEventListener('message', onMessage);
+      target.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onMessage = (e: MessageEvent<MeshResponse>) => {
+      if (e.data.id !== id) return;
+      finish();
+      if (e.data.type === 'done') resolve(e.data.report);
+      else reject(new Error(e.data.message));
+    };
+    // The worker itself failed (e.g. its script didn't load): start afresh next time
+    const onError = (e: ErrorEvent) => {
+      finish();
+      if (worker === target) worker = null;
+      target.terminate();
+      reject(new Error(e.message || 'Mesh worker failed'));
+    };
+    const onAbort = () => {
+      finish();
+      if (worker === target) worker = null;
+      target.terminate();
+      reject(new DOMException('Mesh check cancelled', 'AbortError'));
+    };
+    target.addEventListener('message', onMessage);
+    target.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    target.postMessage({ id, contours, config, pixelsPerMm } satisfies MeshRequest);
+  });
+}
@@ -0,0 +1,17 @@
+// Mesh worker: builds the jig mesh and checks it off the main thread, since a
+// big bed array takes seconds. Started by mesh-client.ts.
+import { buildJigMesh } from './stl-export';
+import { checkMesh } from './mesh-check';
+import type { MeshRequest, MeshResponse } from './mesh-client';
+
+self.addEventListener('message', (e: MessageEvent<MeshRequest>) => {
+  const { id, contours, config, pixelsPerMm } = e.data;
+  let response: MeshResponse;
+  try {
+    response = { id, type: 'done', report: checkMesh(buildJigMesh(contours, config, pixelsPerMm)) };
+  } catch (err) {
+    console.error('[worker] Mesh check failed:', err);
+    response = { id, type: 'error', message: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+});
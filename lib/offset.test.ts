@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { Point } from './types';
+import { intersectPolygons } from './offset';
+
+function rect(x0: number, y0: number, x1: number, y1: number): Point[] {
+  return [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }];
+}
+
+function totalArea(loops: Point[][]): number {
+  let sum = 0;
+  for (const loop of loops) {
+    for (let i = 0; i < loop.length; i++) {
+      const j = (i + 1) % loop.length;
+      sum += (loop[i].x * loop[j].y - loop[j].x * loop[i].y) / 2;
+    }
+  }
+  return sum;
+}
+
+describe('intersectPolygons', () => {
+  it('measures a partial overlap exactly', () => {
+    expect(totalArea(intersectPolygons(rect(0, 0, 10, 10), rect(5, 0, 15, 10)))).toBeCloseTo(50, 9);
+  });
+
+  it('returns the whole shape for identical outlines, whichever way they wind', () => {
+    expect(totalArea(intersectPolygons(rect(0, 0, 10, 10), rect(0, 0, 10, 10)))).toBeCloseTo(100, 9);
+    expect(totalArea(intersectPolygons(rect(0, 0, 10, 10), rect(0, 0, 10, 10).reverse()))).toBeCloseTo(100, 9);
+  });
+
+  it('keeps thin overlaps that a raster would lose', () => {
+    expect(totalArea(intersectPolygons(rect(0, 0, 100, 1), rect(50, -50, 51, 50)))).toBeCloseTo(1, 9);
+  });
+
+  it('is empty for shapes that only touch', () => {
+    expect(intersectPolygons(rect(0, 0, 10, 10), rect(10, 0, 20, 10))).toEqual([]);
+    expect(intersectPolygons(rect(0, 0, 10, 10), rect(20, 0, 30, 10))).toEqual([]);
+  });
+
+  it('returns each separate piece', () => {
+    const u = [
+      { x: 0, y: 0 }, { x: 30, y: 0 }, { x: 30, y: 30 }, { x: 20, y: 30 },
+      { x: 20, y: 10 }, { x: 10, y: 10 }, { x: 10, y: 30 }, { x: 0, y: 30 },
+    ];
+    const pieces = intersectPolygons(u, rect(-5, 20, 35, 25));
+    expect(pieces).toHaveLength(2);
+    expect(totalArea(pieces)).toBeCloseTo(100, 9);
+  });
+});
@@ -0,0 +1,405 @@
+import type { Point } from './types';
+
+export type JoinType = 'miter' | 'round';
+
+const MITER_LIMIT = 2; // longer mitres are bevelled off
+const ROUND_STEP = Math.PI / 12; // angular resolution of round joins
+const EPS = 1e-9;
+const MERGE = 1e-6; // points closer than this are the same point
+
+// Signed polygon area (positive = counter-clockwise in the point's own axes)
+function signedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    area += points[i].x * points[j].y - points[j].x * points[i].y;
+  }
+  return area / 2;
+}
+
+function cross(ax: number, ay: number, bx: number, by: number): number {
+  return ax * by - ay * bx;
+}
+
+// Drop repeated and collinear points so every edge has a direction
+function cleanPolygon(points: Point[]): Point[] {
+  const out: Point[] = [];
+  for (const p of points) {
+    const last = out[out.length - 1];
+    if (!last || Math.hypot(p.x - last.x, p.y - last.y) > MERGE) out.push(p);
+  }
+  while (out.length > 1 && Math.hypot(out[0].x - out[out.length - 1].x, out[0].y - out[out.length - 1].y) <= MERGE) {
+    out.pop();
+  }
+  return out.filter((p, i) => {
+    const a = out[(i - 1 + out.length) % out.length], b = out[(i + 1) % out.length];
+    return Math.abs(cross(p.x - a.x, p.y - a.y, b.x - p.x, b.y - p.y)) > EPS * Math.max(1, Math.hypot(b.x - a.x, b.y - a.y));
+  });
+}
+
+/**
+ * Raw offset of a counter-clockwise polygon: every edge moved out by d, with
+ * joins where corners open up and a loop back through the vertex where they
+ * close. Usually self-intersects; positiveBoundary() untangles it.
+ */
+function rawOffset(points: Point[], d: number, join: JoinType): Point[] {
+  const n = points.length;
+  // Outward normal of a CCW edge is its right-hand side
+  const normals = points.map((p, i) => {
+    const q = points[(i + 1) % n];
+    const len = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    return { x: (q.y - p.y) / len, y: -(q.x - p.x) / len };
+  });
+
+  const out: Point[] = [];
+  for (let i = 0; i < n; i++) {
+    const prev = (i - 1 + n) % n;
+    const v = points[i];
+    const n1 = normals[prev], n2 = normals[i];
+    const a = { x: v.x + n1.x * d, y: v.y + n1.y * d }; // end of the previous offset edge
+    const b = { x: v.x + n2.x * d, y: v.y + n2.y * d }; // start of the next offset edge
+
+    // Positive turn = convex corner; the offset opens a gap there when growing
+    const turn = cross(n1.x, n1.y, n2.x, n2.y);
+    const opens = d > 0 ? turn > EPS : turn < -EPS;
+    const cosHalf = Math.sqrt(Math.max(0, (1 + n1.x * n2.x + n1.y * n2.y) / 2));
+
+    if (!opens) {
+      // Concave for this direction: go back through the vertex; the little
+      // loop this leaves winds the wrong way and falls out of the boundary
+      out.push(a, v, b);
+    } else if (join === 'round') {
+      // Normals are less than half a turn apart, so take the short way round
+      const start = Math.atan2(n1.y, n1.x);
+      let sweep = Math.atan2(n2.y, n2.x) - start;
+      if (sweep > Math.PI) sweep -= Math.PI * 2;
+      if (sweep <= -Math.PI) sweep += Math.PI * 2;
+      const steps = Math.max(1, Math.ceil(Math.abs(sweep) / ROUND_STEP));
+      for (let s = 0; s <= steps; s++) {
+        const ang = start + (sweep * s) / steps;
+        out.push({ x: v.x + Math.cos(ang) * d, y: v.y + Math.sin(ang) * d });
+      }
+    } else if (cosHalf > 1 / MITER_LIMIT) {
+      const mx = (n1.x + n2.x) / 2, my = (n1.y + n2.y) / 2;
+      const scale = d / (cosHalf * cosHalf);
+      out.push({ x: v.x + mx * scale, y: v.y + my * scale });
+    } else {
+      out.push(a, b); // bevel instead of a long spike
+    }
+  }
+  return out;
+}
+
+interface Segment {
+  a: Point;
+  b: Point;
+  next: number; // the following edge of the same ring
+}
+
+// Every edge of a set of closed rings, in one list
+function ringSegments(rings: Point[][]): Segment[] {
+  const segments: Segment[] = [];
+  for (const ring of rings) {
+    const start = segments.length;
+    ring.forEach((a, i) => {
+      segments.push({ a, b: ring[(i + 1) % ring.length], next: start + ((i + 1) % ring.length) });
+    });
+  }
+  return segments;
+}
+
+// Parameters along each edge where another edge crosses or touches it,
+// including where collinear edges start to overlap
+function crossingParams(segments: Segment[]): number[][] {
+  const n = segments.length;
+  const params = segments.map(() => [0, 1]);
+
+  // Bucket edges into a coarse grid so only neighbours get compared
+  const xs = segments.map(s => s.a.x), ys = segments.map(s => s.a.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const cells = Math.max(1, Math.ceil(Math.sqrt(n)));
+  const size = Math.max((Math.max(...xs) - minX) / cells, (Math.max(...ys) - minY) / cells) || 1;
+  const cellOf = (v: number, min: number) => Math.max(0, Math.min(cells - 1, Math.floor((v - min) / size)));
+  const bucket: number[][] = Array.from({ length: cells * cells }, () => []);
+  const cellRange = (i: number) => {
+    const { a, b } = segments[i];
+    return [
+      cellOf(Math.min(a.x, b.x) - MERGE, minX), cellOf(Math.max(a.x, b.x) + MERGE, minX),
+      cellOf(Math.min(a.y, b.y) - MERGE, minY), cellOf(Math.max(a.y, b.y) + MERGE, minY),
+    ];
+  };
+  for (let i = 0; i < n; i++) {
+    const [x0, x1, y0, y1] = cellRange(i);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) bucket[cy * cells + cx].push(i);
+    }
+  }
+
+  const checked = new Array<number>(n).fill(-1);
+  for (let i = 0; i < n; i++) {
+    const { a: p1, b: p2 } = segments[i];
+    const rx = p2.x - p1.x, ry = p2.y - p1.y;
+    const rLen = Math.hypot(rx, ry);
+    const minPx = Math.min(p1.x, p2.x) - MERGE, maxPx = Math.max(p1.x, p2.x) + MERGE;
+    const minPy = Math.min(p1.y, p2.y) - MERGE, maxPy = Math.max(p1.y, p2.y) + MERGE;
+    const [x0, x1, y0, y1] = cellRange(i);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        for (const j of bucket[cy * cells + cx]) {
+          if (j <= i || checked[j] === i) continue;
+          checked[j] = i;
+          if (segments[i].next === j || segments[j].next === i) continue; // neighbours share an end
+          const { a: p3, b: p4 } = segments[j];
+          if (Math.max(p3.x, p4.x) < minPx || Math.min(p3.x, p4.x) > maxPx) continue;
+          if (Math.max(p3.y, p4.y) < minPy || Math.min(p3.y, p4.y) > maxPy) continue;
+
+          const sx = p4.x - p3.x, sy = p4.y - p3.y;
+          const sLen = Math.hypot(sx, sy);
+          const qx = p3.x - p1.x, qy = p3.y - p1.y;
+          const denom = cross(rx, ry, sx, sy);
+          if (Math.abs(denom) > EPS * rLen * sLen) {
+            const t = cross(qx, qy, sx, sy) / denom;
+            const u = cross(qx, qy, rx, ry) / denom;
+            const tolT = MERGE / rLen, tolU = MERGE / sLen;
+            if (t >= -tolT && t <= 1 + tolT && u >= -tolU && u <= 1 + tolU) {
+              params[i].push(Math.max(0, Math.min(1, t)));
+              params[j].push(Math.max(0, Math.min(1, u)));
+            }
+          } else if (Math.abs(cross(qx, qy, rx, ry)) / rLen < MERGE) {
+            // Collinear: each edge is split where the other one ends
+            for (const p of [p3, p4]) {
+              const t = ((p.x - p1.x) * rx + (p.y - p1.y) * ry) / (rLen * rLen);
+              if (t > 0 && t < 1) params[i].push(t);
+            }
+            for (const p of [p1, p2]) {
+              const u = ((p.x - p3.x) * sx + (p.y - p3.y) * sy) / (sLen * sLen);
+              if (u > 0 && u < 1) params[j].push(u);
+            }
+          }
+        }
+      }
+    }
+  }
+  return params;
+}
+
+interface Edge {
+  from: number;
+  to: number;
+}
+
+// Ray directions along the axes; the ray is cast along +u of (u, w)
+const RAYS = [
+  { ux: 1, uy: 0, wx: 0, wy: 1 },
+  { ux: -1, uy: 0, wx: 0, wy: -1 },
+  { ux: 0, uy: 1, wx: -1, wy: 0 },
+  { ux: 0, uy: -1, wx: 1, wy: 0 },
+];
+
+/**
+ * Edges bucketed into horizontal and vertical bands, so a ray along an axis
+ * only has to look at the edges in its own band.
+ */
+function bandIndex(vertices: Point[], edges: Edge[]) {
+  const xs = vertices.map(v => v.x), ys = vertices.map(v => v.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const count = Math.max(1, Math.ceil(Math.sqrt(edges.length)));
+  const sizeX = (Math.max(...xs) - minX) / count || 1;
+  const sizeY = (Math.max(...ys) - minY) / count || 1;
+  const rows: number[][] = Array.from({ length: count }, () => []);
+  const cols: number[][] = Array.from({ length: count }, () => []);
+  const band = (value: number, min: number, size: number) =>
+    Math.max(0, Math.min(count - 1, Math.floor((value - min) / size)));
+  edges.forEach((e, i) => {
+    const a = vertices[e.from], b = vertices[e.to];
+    const r0 = band(Math.min(a.y, b.y), minY, sizeY), r1 = band(Math.max(a.y, b.y), minY, sizeY);
+    for (let r = r0; r <= r1; r++) rows[r].push(i);
+    const c0 = band(Math.min(a.x, b.x), minX, sizeX), c1 = band(Math.max(a.x, b.x), minX, sizeX);
+    for (let c = c0; c <= c1; c++) cols[c].push(i);
+  });
+  return (p: Point, horizontal: boolean): number[] =>
+    horizontal ? rows[band(p.y, minY, sizeY)] : cols[band(p.x, minX, sizeX)];
+}
+
+/**
+ * Boundary of the area a set of (possibly self-intersecting) rings winds
+ * around at least minWinding times. The rings are cut at every crossing;
+ * each piece is kept if that area lies on one side of it and not the other,
+ * and the kept pieces are chained back into loops. Counter-clockwise loops
+ * are returned; holes the rings closed off are dropped.
+ */
+function positiveBoundary(rings: Point[][], minWinding = 1): Point[][] {
+  // Shared vertex list, merging points that land within MERGE of each other
+  const vertices: Point[] = [];
+  const grid = new Map<string, number[]>();
+  const cell = MERGE * 4;
+  const vertexId = (p: Point): number => {
+    const cx = Math.floor(p.x / cell), cy = Math.floor(p.y / cell);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const id of grid.get(`${cx + dx},${cy + dy}`) ?? []) {
+          if (Math.hypot(vertices[id].x - p.x, vertices[id].y - p.y) <= MERGE) return id;
+        }
+      }
+    }
+    const id = vertices.length;
+    vertices.push(p);
+    const key = `${cx},${cy}`;
+    if (!grid.has(key)) grid.set(key, []);
+    grid.get(key)!.push(id);
+    return id;
+  };
+
+  // Cut every edge at its crossings; pieces that coincide are grouped
+  const pieces: Edge[] = [];
+  const groups = new Map<string, number[]>();
+  const segments = ringSegments(rings);
+  crossingParams(segments).forEach((ts, i) => {
+    const { a, b } = segments[i];
+    const ids = [...ts]
+      .sort((x, y) => x - y)
+      .map(t => vertexId({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }));
+    for (let k = 0; k + 1 < ids.length; k++) {
+      const from = ids[k], to = ids[k + 1];
+      if (from === to) continue;
+      const key = from < to ? `${from},${to}` : `${to},${from}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(pieces.length);
+      pieces.push({ from, to });
+    }
+  });
+  const piecesNear = bandIndex(vertices, pieces);
+
+  // Keep a group if the area lies on exactly one side of it. The winding just
+  // left of it is counted along an axis ray leaving to that side, skipping the
+  // group itself; each piece in the group adds one more on its left than on
+  // its right.
+  const edges: Edge[] = [];
+  groups.forEach(members => {
+    const { from, to } = pieces[members[0]];
+    const p = vertices[from], q = vertices[to];
+    const mid = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+    const nx = -(q.y - p.y), ny = q.x - p.x; // left normal
+    const rows = piecesNear(mid, true), cols = piecesNear(mid, false);
+    // Either axis works unless it runs (nearly) along the group itself
+    const len = Math.hypot(nx, ny);
+    const rowOk = Math.abs(nx) > len / 4, colOk = Math.abs(ny) > len / 4;
+    const useRow = rowOk && (!colOk || rows.length <= cols.length);
+    const ray = RAYS[useRow ? (nx > 0 ? 0 : 1) : (ny > 0 ? 2 : 3)];
+
+    let left = 0;
+    for (const k of useRow ? rows : cols) {
+      if (members.includes(k)) continue;
+      const a = vertices[pieces[k].from], b = vertices[pieces[k].to];
+      const au = (a.x - mid.x) * ray.ux + (a.y - mid.y) * ray.uy;
+      const aw = (a.x - mid.x) * ray.wx + (a.y - mid.y) * ray.wy;
+      const bu = (b.x - mid.x) * ray.ux + (b.y - mid.y) * ray.uy;
+      const bw = (b.x - mid.x) * ray.wx + (b.y - mid.y) * ray.wy;
+      const side = cross(bu - au, bw - aw, -au, -aw);
+      if (aw <= 0 && bw > 0 && side > 0) left++;
+      else if (aw > 0 && bw <= 0 && side < 0) left--;
+    }
+    const right = left - members.reduce((sum, k) => sum + (pieces[k].from === from ? 1 : -1), 0);
+
+    if ((left >= minWinding) === (right >= minWinding)) return;
+    // Orient every kept piece with the area on its left
+    edges.push(left >= minWinding ? { from, to } : { from: to, to: from });
+  });
+
+  // Chain the pieces into loops, turning as far left as possible wherever
+  // several leave the same vertex so touching loops come apart
+  const outgoing = new Map<number, number[]>();
+  edges.forEach((e, i) => {
+    if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+    outgoing.get(e.from)!.push(i);
+  });
+  const used = new Array<boolean>(edges.length).fill(false);
+  const loops: Point[][] = [];
+  for (let start = 0; start < edges.length; start++) {
+    if (used[start]) continue;
+    const loop: Point[] = [];
+    let current = start;
+    let closed = false;
+    while (!used[current]) {
+      used[current] = true;
+      const e = edges[current];
+      loop.push(vertices[e.from]);
+      if (e.to === edges[start].from) {
+        closed = true;
+        break;
+      }
+      const p = vertices[e.from], v = vertices[e.to];
+      const inX = v.x - p.x, inY = v.y - p.y;
+      let next = -1, bestTurn = -Infinity;
+      for (const k of outgoing.get(e.to) ?? []) {
+        if (used[k]) continue;
+        const q = vertices[edges[k].to];
+        const outX = q.x - v.x, outY = q.y - v.y;
+        const turn = Math.atan2(cross(inX, inY, outX, outY), inX * outX + inY * outY);
+        if (turn > bestTurn) { next = k; bestTurn = turn; }
+      }
+      if (next === -1) break; // open chain: numerical debris
+      current = next;
+    }
+    if (closed) {
+      const clean = cleanPolygon(loop);
+      if (clean.length >= 3 && signedArea(clean) > EPS) loops.push(clean);
+    }
+  }
+  return loops;
+}
+
+/**
+ * Offset a closed polygon in floating point. Positive distances grow it,
+ * negative ones shrink it, whichever way it winds. Corners that open up get a
+ * mitre (bevelled past a 2x limit) or a round join; the loops and crossings a
+ * naive offset leaves behind are removed, and a shape that necks apart comes
+ * back as several polygons. Output keeps the input's winding direction.
+ */
+export function offsetPolygon(points: Point[], distance: number, join: JoinType = 'miter'): Point[][] {
+  const clean = cleanPolygon(points);
+  if (clean.length < 3) return [];
+  if (distance === 0) return [clean];
+
+  const reversed = signedArea(clean) < 0;
+  const ccw = reversed ? [...clean].reverse() : clean;
+  const raw = rawOffset(ccw, distance, join);
+
+  const result = positiveBoundary([cleanPolygon(raw)]);
+  return reversed ? result.map(loop => [...loop].reverse()) : result;
+}
+
+/**
+ * Offset that always returns a single outline: the largest piece, or the
+ * input if the offset swallowed it entirely.
+ */
+export function offsetOutline(points: Point[], distance: number, join: JoinType = 'miter'): Point[] {
+  const pieces = offsetPolygon(points, distance, join);
+  if (pieces.length === 0) return points;
+  return pieces.reduce((a, b) => (Math.abs(signedArea(b)) > Math.abs(signedArea(a)) ? b : a));
+}
+
+/**
+ * Union of two simple polygons, whichever way each winds. Usually one loop;
+ * polygons that don't touch come back separately, and holes enclosed between
+ * them are dropped. Output winds like `a`.
+ */
+export function unionPolygons(a: Point[], b: Point[]): Point[][] {
+  const [ca, cb] = [cleanPolygon(a), cleanPolygon(b)];
+  if (ca.length < 3) return cb.length < 3 ? [] : [cb];
+  if (cb.length < 3) return [ca];
+  const ccw = (ring: Point[]) => (signedArea(ring) < 0 ? [...ring].reverse() : ring);
+  const result = positiveBoundary([ccw(ca), ccw(cb)]);
+  return signedArea(ca) < 0 ? result.map(loop => [...loop].reverse()) : result;
+}
+
+/**
+ * Intersection of two simple polygons, whichever way each winds: the area
+ * both of them cover, as counter-clockwise loops. Empty if they only touch.
+ */
+export function intersectPolygons(a: Point[], b: Point[]): Point[][] {
+  const [ca, cb] = [cleanPolygon(a), cleanPolygon(b)];
+  if (ca.length < 3 || cb.length < 3) return [];
+  const ccw = (ring: Point[]) => (signedArea(ring) < 0 ? [...ring].reverse() : ring);
+  return positiveBoundary([ccw(ca), ccw(cb)], 2);
+}
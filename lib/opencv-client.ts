@@ -0,0 +1,132 @@
+// Main-thread side of the detection worker: one shared worker, jobs matched
+// to replies by id, cancellation through an AbortSignal
+import { jobBitmaps } from './cv-pipeline';
+import type { CvJob, CvJobResults, CvRequest, CvResponse, CvStage } from './cv-pipeline';
+
+export type { CvStage } from './cv-pipeline';
+
+export interface CvJobOptions {
+  signal?: AbortSignal; // aborting rejects with an AbortError and stops the worker at its next stage
+  onProgress?: (stage: CvStage) => void;
+}
+
+export const CV_STAGE_LABELS: Record<CvStage, string> = {
+  downloading: 'Downloading OpenCV (~11MB)...',
+  initializing: 'Initializing OpenCV engine...',
+  reading: 'Reading image...',
+  lighting: 'Evening out lighting...',
+  paper: 'Detecting paper...',
+  canny: 'Finding edges (Canny)...',
+  adaptive: 'Adaptive threshold...',
+  binary: 'Otsu threshold...',
+  color: 'Color segmentation...',
+  merging: 'Merging candidates...',
+  subpixel: 'Refining edges to sub-pixel...',
+  warping: 'Warping perspective...',
+  grabcut: 'Refining outline (GrabCut)...',
+  watershed: 'Segmenting from clicks...',
+  tracing: 'Tracing painted mask...',
+  checkerboard: 'Finding checkerboard corners...',
+  undistorting: 'Correcting lens distortion...',
+};
+
+export const MAX_PROCESS_DIM = 2048; // detection runs on images downsized to this
+
+interface PendingJob {
+  resolve: (result: CvJobResults[CvJob['kind']]) => void;
+  reject: (err: Error) => void;
+  onProgress?: (stage: CvStage) => void;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(new URL('./opencv.worker.ts', import.meta.url));
+  worker.onmessage = (e: MessageEvent<CvResponse>) => {
+    const msg = e.data;
+    const job = pending.get(msg.id);
+    if (!job) return; // cancelled
+    if (msg.type === 'progress') {
+      job.onProgress?.(msg.stage);
+      return;
+    }
+    pending.delete(msg.id);
+    if (msg.type === 'done') job.resolve(msg.result);
+    else job.reject(new Error(msg.message));
+  };
+  // The worker itself failed (e.g. its script didn't load): fail everything and start afresh next time
+  worker.onerror = (e) => {
+    console.error('[worker] Detection worker crashed:', e.message);
+    const err = new Error(e.message || 'Detection worker failed');
+    pending.forEach(job => job.reject(err));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/**
+ * Run a job on the detection worker. The job's image bitmaps are transferred,
+ * so they can't be used again afterwards.
+ */
+export function runCvJob<K extends CvJob['kind']>(
+  job: Extract<CvJob, { kind: K }>,
+  options: CvJobOptions = {}
+): Promise<CvJobResults[K]> {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) {
+    jobBitmaps(job).forEach(bitmap => bitmap.close());
+    return Promise.reject(new DOMException('Detection cancelled', 'AbortError'));
+  }
+
+  const id = nextJobId++;
+  const target = getWorker();
+  return new Promise<CvJobResults[K]>((resolve, reject) => {
+    const onAbort = () => {
+      if (!pending.delete(id)) return;
+      target.postMessage({ type: 'cancel', id } satisfies CvRequest);
+      reject(new DOMException('Detection cancelled', 'AbortError'));
+    };
+    pending.set(id, {
+      resolve: result => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result as CvJobResults[K]);
+      },
+      reject: err => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(err);
+      },
+      onProgress,
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    target.postMessage({ type: 'run', id, job } satisfies CvRequest, jobBitmaps(job));
+  });
+}
+
+/**
+ * Snapshot an image for the worker, downsized so its longest side is at
+ * most `maxDim`. `scale` maps the bitmap's pixels back to the original's.
+ */
+export async function imageToBitmap(
+  img: HTMLImageElement | HTMLCanvasElement,
+  maxDim: number = MAX_PROCESS_DIM
+): Promise<{ image: ImageBitmap; scale: number }> {
+  const w = (img instanceof HTMLImageElement && img.naturalWidth) || img.width;
+  const h = (img instanceof HTMLImageElement && img.naturalHeight) || img.height;
+  if (w <= maxDim && h <= maxDim) return { image: await createImageBitmap(img), scale: 1 };
+
+  const fit = maxDim / Math.max(w, h);
+  const resizeWidth = Math.round(w * fit);
+  const resizeHeight = Math.round(h * fit);
+  console.log(`[OpenCV] Resizing from ${w}x${h} to ${resizeWidth}x${resizeHeight}`);
+  const image = await createImageBitmap(img, { resizeWidth, resizeHeight, resizeQuality: 'high' });
+  return { image, scale: 1 / fit };
+}
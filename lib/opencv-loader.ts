@@ -1,80 +1,57 @@
-// OpenCV 3.4 loader via script tag
-// 
+// OpenCV 3.4 loader for the detection worker (see opencv.worker.ts)
+//
 // CRITICAL: OpenCV's module object has a .then() method, making it a "thenable".
 // You CANNOT return it from an async function or Promise.resolve() — JavaScript
 // will follow the .then() chain and hang forever.
-// 
+//
 // Solution: loadOpenCV() returns Promise<void>, then use getCv() to get the instance.
 
-declare global {
-  interface Window {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    cv: any;
-  }
-}
+// Worker globals; the project compiles against the DOM lib only
+declare function importScripts(...urls: string[]): void;
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let cvInstance: any = null;
 let loadPromise: Promise<void> | null = null;
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const scope = () => self as unknown as { cv?: any };
+
 /**
- * Load and initialize OpenCV. Resolves when ready.
+ * Load and initialize OpenCV inside the worker. Resolves when ready.
  * Use getCv() after this to get the cv object.
  */
-export function loadOpenCV(): Promise<void> {
+export function loadOpenCV(onProgress?: (step: 'downloading' | 'initializing') => void): Promise<void> {
   if (cvInstance) return Promise.resolve();
   if (loadPromise) return loadPromise;
 
   loadPromise = new Promise<void>((resolve, reject) => {
-    // Already loaded from previous visit
-    if (typeof window !== 'undefined' && window.cv && window.cv.Mat) {
-      console.log('[OpenCV] Already loaded from cache');
-      cvInstance = window.cv;
-      dispatchProgress('ready');
-      resolve();
+    onProgress?.('downloading');
+    console.log('[OpenCV] Importing script...');
+    try {
+      importScripts('/opencv.js');
+    } catch {
+      loadPromise = null;
+      reject(new Error('Failed to download OpenCV.js'));
       return;
     }
-
-    dispatchProgress('downloading');
-    console.log('[OpenCV] Loading script tag...');
-
-    const script = document.createElement('script');
-    script.src = '/opencv.js';
-    script.async = true;
-
-    script.onload = () => {
-      console.log('[OpenCV] Script loaded');
-      dispatchProgress('initializing');
-
-      // Check if cv is ready immediately
-      if (window.cv && window.cv.Mat) {
-        console.log('[OpenCV] Ready immediately after script load');
-        cvInstance = window.cv;
-        dispatchProgress('ready');
+    onProgress?.('initializing');
+
+    // Poll for readiness (the WASM runtime initializes asynchronously)
+    let attempts = 0;
+    const poll = () => {
+      const cv = scope().cv;
+      if (cv && cv.Mat) {
+        console.log(`[OpenCV] Ready after ${attempts * 100}ms of polling`);
+        cvInstance = cv;
         resolve();
-        return;
+      } else if (attempts++ > 600) {
+        loadPromise = null;
+        reject(new Error('OpenCV failed to initialize after 60s'));
+      } else {
+        setTimeout(poll, 100);
       }
-
-      // Poll for readiness
-      console.log('[OpenCV] Polling for cv.Mat...');
-      let attempts = 0;
-      const poll = () => {
-        if (window.cv && window.cv.Mat) {
-          console.log(`[OpenCV] Ready after ${attempts * 100}ms of polling`);
-          cvInstance = window.cv;
-          dispatchProgress('ready');
-          resolve();
-        } else if (attempts++ > 600) {
-          reject(new Error('OpenCV failed to initialize after 60s'));
-        } else {
-          setTimeout(poll, 100);
-        }
-      };
-      poll();
     };
-
-    script.onerror = () => reject(new Error('Failed to download OpenCV.js'));
-    document.head.appendChild(script);
+    poll();
   });
 
   return loadPromise;
@@ -89,44 +66,9 @@ export function getCv(): any {
   return cvInstance;
 }
 
-function dispatchProgress(step: string) {
-  if (typeof window !== 'undefined') {
-    console.log(`[OpenCV] Progress: ${step}`);
-    window.dispatchEvent(new CustomEvent('opencv-progress', { detail: step }));
-  }
-}
-
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function safeDelete(...mats: any[]) {
   for (const m of mats) {
     try { m?.delete?.(); } catch { /* already deleted */ }
   }
 }
-
-export function imageToCanvas(img: HTMLImageElement, maxDim: number = 2048): HTMLCanvasElement {
-  const canvas = document.createElement('canvas');
-  let w = img.naturalWidth || img.width;
-  let h = img.naturalHeight || img.height;
-
-  if (w > maxDim || h > maxDim) {
-    const scale = maxDim / Math.max(w, h);
-    w = Math.round(w * scale);
-    h = Math.round(h * scale);
-    console.log(`[OpenCV] Resizing from ${img.naturalWidth}x${img.naturalHeight} to ${w}x${h}`);
-  }
-
-  canvas.width = w;
-  canvas.height = h;
-  const ctx = canvas.getContext('2d')!;
-  ctx.drawImage(img, 0, 0, w, h);
-  return canvas;
-}
-
-export function getImageScale(img: HTMLImageElement, maxDim: number = 2048): number {
-  const w = img.naturalWidth || img.width;
-  const h = img.naturalHeight || img.height;
-  if (w > maxDim || h > maxDim) {
-    return maxDim / Math.max(w, h);
-  }
-  return 1;
-}
@@ -0,0 +1,78 @@
+// Detection worker: loads OpenCV once and runs one job at a time, so a 12 MP
+// photo never blocks the page. Started by opencv-client.ts.
+import { loadOpenCV, getCv } from './opencv-loader';
+import {
+  findPaper,
+  findContours,
+  warpImage,
+  refineOutline,
+  segmentFromSeeds,
+  traceMask,
+  findCheckerboardLines,
+  undistortImage,
+  lightingPreview,
+  jobBitmaps,
+} from './cv-pipeline';
+import type { CvJob, CvJobResults, CvRequest, CvResponse, Checkpoint } from './cv-pipeline';
+
+class JobCancelled extends Error {}
+
+const cancelled = new Set<number>();
+let queue: Promise<void> = Promise.resolve();
+
+function post(message: CvResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+// Give queued cancel messages a chance to arrive between stages
+const yieldToMessages = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function run(id: number, job: CvJob): Promise<CvJobResults[CvJob['kind']]> {
+  const checkpoint: Checkpoint = async stage => {
+    await yieldToMessages();
+    if (cancelled.has(id)) throw new JobCancelled();
+    post({ type: 'progress', id, stage });
+  };
+
+  await loadOpenCV(step => post({ type: 'progress', id, stage: step }));
+  const cv = getCv();
+  if (job.kind === 'paper') return findPaper(cv, job.image, job.scale, job.targetAspect, checkpoint);
+  if (job.kind === 'contours') {
+    return findContours(cv, job.image, job.scale, job.params, job.paperRegion, job.fullImage, checkpoint);
+  }
+  if (job.kind === 'lighting') return lightingPreview(cv, job.image, job.settings, checkpoint);
+  if (job.kind === 'grabcut') return refineOutline(cv, job.image, job.scale, job.outline, job.epsilon, checkpoint);
+  if (job.kind === 'segment') {
+    const { image, scale, foreground, background, paperRegion, epsilon } = job;
+    return segmentFromSeeds(cv, image, scale, foreground, background, paperRegion, epsilon, checkpoint);
+  }
+  if (job.kind === 'mask') return traceMask(cv, job.image, job.scale, job.epsilon, checkpoint);
+  if (job.kind === 'checkerboard') return findCheckerboardLines(cv, job.image, job.scale, checkpoint);
+  if (job.kind === 'undistort') return undistortImage(cv, job.image, job.k1, job.k2, checkpoint);
+  return warpImage(cv, job.image, job.corners, job.width, job.height, checkpoint);
+}
+
+self.addEventListener('message', (e: MessageEvent<CvRequest>) => {
+  const request = e.data;
+  if (request.type === 'cancel') {
+    cancelled.add(request.id);
+    return;
+  }
+
+  const { id, job } = request;
+  queue = queue.then(async () => {
+    try {
+      if (cancelled.has(id)) throw new JobCancelled();
+      const result = await run(id, job);
+      post({ type: 'done', id, result }, result instanceof ImageData ? [result.data.buffer] : []);
+    } catch (err) {
+      if (!(err instanceof JobCancelled)) {
+        console.error(`[worker] ${job.kind} job failed:`, err);
+        post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+      }
+    } finally {
+      jobBitmaps(job).forEach(bitmap => bitmap.close()); // no-op if the pipeline already released them
+      cancelled.delete(id);
+    }
+  });
+});
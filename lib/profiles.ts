@@ -0,0 +1,105 @@
+import type { MachineProfile, MachineSettings } from './types';
+
+// Material / machine profiles, kept in localStorage. Components listen for
+// 'profile-changed' (detail: the active profile or null) to pick up a switch.
+
+const PROFILES_KEY = 'jigsnap-profiles';
+const ACTIVE_KEY = 'jigsnap-active-profile';
+
+export const PROFILE_CHANGED_EVENT = 'profile-changed';
+
+// Settings in use until a profile is picked
+export const PROFILE_DEFAULTS: MachineSettings = {
+  thicknessMm: 6,
+  clearanceMm: 0.5,
+  kerfMm: 0,
+  bedWidthMm: 600,
+  bedHeightMm: 400,
+  exportFormat: 'svg',
+};
+
+// Seeded the first time so there is something to pick from
+const DEFAULT_PROFILES: MachineProfile[] = [
+  {
+    id: 'birch-3mm-diode-40w',
+    name: '3 mm birch on 40 W diode',
+    thicknessMm: 3,
+    clearanceMm: 0.3,
+    kerfMm: 0.15,
+    bedWidthMm: 400,
+    bedHeightMm: 400,
+    exportFormat: 'svg',
+  },
+  {
+    id: 'pla-prusa-mk4',
+    name: 'PLA on Prusa MK4',
+    thicknessMm: 6,
+    clearanceMm: 0.4,
+    kerfMm: 0,
+    bedWidthMm: 250,
+    bedHeightMm: 210,
+    exportFormat: '3mf',
+  },
+];
+
+export function profileSettings(p: MachineProfile): MachineSettings {
+  return {
+    thicknessMm: p.thicknessMm,
+    clearanceMm: p.clearanceMm,
+    kerfMm: p.kerfMm,
+    bedWidthMm: p.bedWidthMm,
+    bedHeightMm: p.bedHeightMm,
+    exportFormat: p.exportFormat,
+  };
+}
+
+export function loadProfiles(): MachineProfile[] {
+  if (typeof window === 'undefined') return DEFAULT_PROFILES;
+  try {
+    const raw = window.localStorage.getItem(PROFILES_KEY);
+    return raw ? (JSON.parse(raw) as MachineProfile[]) : DEFAULT_PROFILES;
+  } catch (e) {
+    console.warn('[profiles] Could not read saved profiles:', e);
+    return DEFAULT_PROFILES;
+  }
+}
+
+function storeProfiles(profiles: MachineProfile[]): void {
+  window.localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function getActiveProfile(): MachineProfile | null {
+  if (typeof window === 'undefined') return null;
+  const id = window.localStorage.getItem(ACTIVE_KEY);
+  return loadProfiles().find(p => p.id === id) ?? null;
+}
+
+function notify(): void {
+  window.dispatchEvent(new CustomEvent(PROFILE_CHANGED_EVENT, { detail: getActiveProfile() }));
+}
+
+export function setActiveProfile(id: string | null): void {
+  if (id) window.localStorage.setItem(ACTIVE_KEY, id);
+  else window.localStorage.removeItem(ACTIVE_KEY);
+  notify();
+}
+
+/**
+ * Insert or replace a profile (matched by id) and make it active.
+ */
+export function saveProfile(profile: MachineProfile): void {
+  const profiles = loadProfiles().filter(p => p.id !== profile.id);
+  storeProfiles([...profiles, profile]);
+  setActiveProfile(profile.id);
+}
+
+export function deleteProfile(id: string): void {
+  storeProfiles(loadProfiles().filter(p => p.id !== id));
+  if (window.localStorage.getItem(ACTIVE_KEY) === id) window.localStorage.removeItem(ACTIVE_KEY);
+  notify();
+}
+
+export function createProfileId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'profile'}-${Date.now().toString(36)}`;
+}
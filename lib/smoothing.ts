@@ -0,0 +1,117 @@
+import type { Point, SmoothingOptions } from './types';
+
+const MIN_SAMPLE_PX = 0.5; // finest spacing the moving averages resample to
+
+function perimeter(points: Point[]): number {
+  let total = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    total += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return total;
+}
+
+/**
+ * Resample a closed outline to points evenly spaced along its length, as
+ * close to `spacing` as divides the perimeter. Corners between samples are
+ * cut, so keep the spacing small next to the features that matter.
+ */
+export function resampleOutline(points: Point[], spacing: number): Point[] {
+  const total = perimeter(points);
+  if (points.length < 3 || spacing <= 0 || total === 0) return points;
+  const count = Math.max(3, Math.round(total / spacing));
+  const step = total / count;
+
+  const out: Point[] = [];
+  let edge = 0;
+  let edgeStart = 0; // arc length at points[edge]
+  for (let k = 0; k < count; k++) {
+    const at = k * step;
+    let a = points[edge], b = points[(edge + 1) % points.length];
+    let len = Math.hypot(b.x - a.x, b.y - a.y);
+    while (edgeStart + len < at && edge < points.length - 1) {
+      edgeStart += len;
+      edge++;
+      a = points[edge];
+      b = points[(edge + 1) % points.length];
+      len = Math.hypot(b.x - a.x, b.y - a.y);
+    }
+    const t = len === 0 ? 0 : Math.min(1, (at - edgeStart) / len);
+    out.push({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+  }
+  return out;
+}
+
+// Chaikin corner cutting: every edge keeps its middle half, rounding each corner a little more per pass
+function chaikin(points: Point[], iterations: number): Point[] {
+  let pts = points;
+  for (let it = 0; it < iterations; it++) {
+    const next: Point[] = [];
+    for (let i = 0; i < pts.length; i++) {
+      const a = pts[i], b = pts[(i + 1) % pts.length];
+      next.push(
+        { x: 0.75 * a.x + 0.25 * b.x, y: 0.75 * a.y + 0.25 * b.y },
+        { x: 0.25 * a.x + 0.75 * b.x, y: 0.25 * a.y + 0.75 * b.y }
+      );
+    }
+    pts = next;
+  }
+  return pts;
+}
+
+// Weighted average of each point with its neighbours round the (closed, evenly spaced) outline
+function convolve(points: Point[], weights: number[]): Point[] {
+  const n = points.length;
+  const half = (weights.length - 1) / 2;
+  return points.map((_, i) => {
+    let x = 0, y = 0;
+    weights.forEach((w, k) => {
+      const p = points[(((i + k - half) % n) + n) % n];
+      x += w * p.x;
+      y += w * p.y;
+    });
+    return { x, y };
+  });
+}
+
+function gaussianWeights(sigmaSamples: number, half: number): number[] {
+  const weights = [];
+  for (let k = -half; k <= half; k++) weights.push(Math.exp(-(k * k) / (2 * sigmaSamples * sigmaSamples)));
+  const sum = weights.reduce((s, w) => s + w, 0);
+  return weights.map(w => w / sum);
+}
+
+// Smoothing coefficients of a quadratic least-squares fit over 2m + 1 samples
+function savitzkyGolayWeights(m: number): number[] {
+  const norm = (2 * m + 1) * (4 * m * m + 4 * m - 3);
+  const weights = [];
+  for (let k = -m; k <= m; k++) weights.push((3 * (3 * m * m + 3 * m - 1) - 15 * k * k) / norm);
+  return weights;
+}
+
+/**
+ * Smooth a closed outline (image pixels) with the chosen filter. The moving
+ * averages work along arc length: the outline is resampled finely first, so
+ * the result is dense and meant to be simplified afterwards. Gaussian
+ * rounds corners and pulls curves in slightly; Savitzky–Golay fits a local
+ * parabola, so it keeps curvature better for the same window.
+ */
+export function smoothOutline(points: Point[], options: SmoothingOptions, pixelsPerMm: number): Point[] {
+  if (points.length < 3) return points;
+  if (options.method === 'chaikin') return chaikin(points, Math.max(0, Math.round(options.iterations)));
+  if (options.method === 'none') return points;
+
+  const windowPx = options.windowMm * pixelsPerMm;
+  if (windowPx <= 0) return points;
+  const spacing = Math.max(MIN_SAMPLE_PX, windowPx / 4);
+  const dense = resampleOutline(points, spacing);
+  // A window wider than the outline would wrap onto itself
+  const maxHalf = Math.floor((dense.length - 1) / 2);
+
+  if (options.method === 'gaussian') {
+    const sigma = windowPx / spacing;
+    return convolve(dense, gaussianWeights(sigma, Math.min(maxHalf, Math.ceil(3 * sigma))));
+  }
+  const m = Math.min(maxHalf, Math.max(2, Math.round(windowPx / spacing)));
+  return convolve(dense, savitzkyGolayWeights(m));
+}
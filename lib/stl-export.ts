@@ -1,13 +1,14 @@
 import type { Point, Contour, JigConfig } from './types';
 import earcut from 'earcut';
+import { buildJigPlate, SLOT_DIGIT_MM } from './jig-utils';
 
-interface Vec3 {
+export interface Vec3 {
   x: number;
   y: number;
   z: number;
 }
 
-interface Triangle {
+export interface Triangle {
   v1: Vec3;
   v2: Vec3;
   v3: Vec3;
@@ -20,37 +21,98 @@ function normalize(v: Vec3): Vec3 {
   return { x: v.x / len, y: v.y / len, z: v.z / len };
 }
 
-export function generateSTL(
-  contour: Contour,
-  contourBounds: { width: number; height: number },
+// Signed polygon area (positive = counter-clockwise)
+function signedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    area += points[i].x * points[j].y - points[j].x * points[i].y;
+  }
+  return area / 2;
+}
+
+// How close a vertex has to be to a cap triangle's edge to count as lying on it
+const ON_EDGE_MM = 1e-6;
+
+// Points lying strictly inside segment a→b, ordered from a to b. The
+// candidates must be sorted by x so only the segment's span is scanned.
+function pointsOnEdge(a: Point, b: Point, byX: Point[]): Point[] {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  if (len2 === 0) return [];
+  const minX = Math.min(a.x, b.x) - ON_EDGE_MM, maxX = Math.max(a.x, b.x) + ON_EDGE_MM;
+  let lo = 0, hi = byX.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (byX[mid].x < minX) lo = mid + 1; else hi = mid;
+  }
+  const hits: { t: number; p: Point }[] = [];
+  for (let i = lo; i < byX.length && byX[i].x <= maxX; i++) {
+    const p = byX[i];
+    const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2;
+    if (t <= 1e-9 || t >= 1 - 1e-9) continue;
+    const off = (p.x - a.x) * dy - (p.y - a.y) * dx;
+    if (Math.abs(off) / Math.sqrt(len2) < ON_EDGE_MM) hits.push({ t, p });
+  }
+  return hits.sort((u, v) => u.t - v.t).map(h => h.p);
+}
+
+// Seven-segment digits for raised slot numbers, as [x0, y0, x1, y1] boxes in
+// fractions of the digit cell (Y down). Segments a-g, then which ones each digit lights.
+// Neighbouring segments keep a small gap so no two raised regions touch.
+const SEGMENTS: Record<string, [number, number, number, number]> = {
+  a: [0.3, 0, 0.7, 0.15],
+  b: [0.75, 0, 1, 0.475],
+  c: [0.75, 0.525, 1, 1],
+  d: [0.3, 0.85, 0.7, 1],
+  e: [0, 0.525, 0.25, 1],
+  f: [0, 0, 0.25, 0.475],
+  g: [0.3, 0.425, 0.7, 0.575],
+};
+const DIGIT_SEGMENTS = ['abcdef', 'bc', 'abged', 'abgcd', 'fgbc', 'afgcd', 'afgedc', 'abc', 'abcdefg', 'abcdfg'];
+const DIGIT_RAISE_MM = 0.6;
+
+// Build the jig as a closed triangle mesh in mm (shared by STL and 3MF export)
+export function buildJigMesh(
+  contours: Contour[],
   config: JigConfig,
   pixelsPerMm: number
-): ArrayBuffer {
+): Triangle[] {
   const thickness = config.extrudeHeightMm;
-  const jigSize = config.jigSizeMm;
+  const plate = buildJigPlate(contours, config, pixelsPerMm);
   
-  // Square jig
-  const jigWidth = jigSize;
-  const jigHeight = jigSize;
+  // Plate geometry is Y-down (image space); flip to Y-up so the part isn't mirrored
+  const flipY = (pts: Point[]): Point[] => pts.map(p => ({ x: p.x, y: -p.y }));
   
-  // Center offset
-  const centerX = contour.points.reduce((sum, p) => sum + p.x, 0) / contour.points.length;
-  const centerY = contour.points.reduce((sum, p) => sum + p.y, 0) / contour.points.length;
+  // Outer boundary runs counter-clockwise so its walls face outwards
+  const outerRect = flipY(plate.outline);
+  if (signedArea(outerRect) < 0) outerRect.reverse();
   
-  // Convert contour to mm coordinates centered
-  const contourMm: Point[] = contour.points.map(p => ({
-    x: (p.x - centerX) / pixelsPerMm,
-    y: (p.y - centerY) / pixelsPerMm
-  }));
-  
-  // Define the outer rectangle (jig boundary)
-  const outerRect: Point[] = [
-    { x: -jigWidth / 2, y: -jigHeight / 2 },
-    { x: jigWidth / 2, y: -jigHeight / 2 },
-    { x: jigWidth / 2, y: jigHeight / 2 },
-    { x: -jigWidth / 2, y: jigHeight / 2 }
-  ];
+  // Hole walls face into the cutout only if each contour runs counter-clockwise
+  const holes = plate.cutouts.map(pts => {
+    const hole = flipY(pts);
+    if (signedArea(hole) < 0) hole.reverse();
+    return hole;
+  });
   
+  // Raised slot numbers: each lit segment is a rectangle cut out of the top
+  // face and lifted on its own walls, so the plate stays a single shell
+  const { height: digitH, width: digitW, gap: digitGap } = SLOT_DIGIT_MM;
+  const digits: Point[][] = [];
+  for (const label of plate.labels) {
+    [...label.text].forEach((ch, k) => {
+      const left = label.at.x + k * (digitW + digitGap);
+      const top = label.at.y - digitH;
+      for (const seg of DIGIT_SEGMENTS[Number(ch)] ?? '') {
+        const [sx0, sy0, sx1, sy1] = SEGMENTS[seg];
+        // Flip to Y-up like the rest of the plate, counter-clockwise
+        const x0 = left + sx0 * digitW, x1 = left + sx1 * digitW;
+        const y0 = -(top + sy1 * digitH), y1 = -(top + sy0 * digitH);
+        digits.push([{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }]);
+      }
+    });
+  }
+
   const triangles: Triangle[] = [];
   
   // Helper to add quad as two triangles
@@ -59,98 +121,126 @@ export function generateSTL(
     triangles.push({ v1: v1, v2: v3, v3: v4, normal });
   }
   
-  // 1. Bottom face (full rectangle)
-  const bottomIndices = earcut(
-    outerRect.flatMap(p => [p.x, p.y]),
-    [],
-    2
-  );
-  for (let i = 0; i < bottomIndices.length; i += 3) {
-    const i0 = bottomIndices[i];
-    const i1 = bottomIndices[i + 1];
-    const i2 = bottomIndices[i + 2];
-    triangles.push({
-      v1: { x: outerRect[i0].x, y: outerRect[i0].y, z: 0 },
-      v2: { x: outerRect[i1].x, y: outerRect[i1].y, z: 0 },
-      v3: { x: outerRect[i2].x, y: outerRect[i2].y, z: 0 },
-      normal: { x: 0, y: 0, z: -1 }
-    });
-  }
-  
-  // 2. Top face (rectangle with hole - through-cut)
-  const outerFlat = outerRect.flatMap(p => [p.x, p.y]);
-  const contourFlat = contourMm.flatMap(p => [p.x, p.y]);
-  const holeIndices = [contourFlat.length / 2];
-  const combined = [...outerFlat, ...contourFlat];
-  
-  const topIndices = earcut(combined, holeIndices, 2);
-  const topZ = thickness;
-  for (let i = 0; i < topIndices.length; i += 3) {
-    const i0 = topIndices[i];
-    const i1 = topIndices[i + 1];
-    const i2 = topIndices[i + 2];
-    
-    let p0: Point, p1: Point, p2: Point;
-    if (i0 < outerRect.length) {
-      p0 = outerRect[i0];
-    } else {
-      p0 = contourMm[i0 - outerRect.length];
+  // Triangulate a ring with optional holes into a flat cap at height z.
+  // earcut emits counter-clockwise triangles, so downward caps are flipped
+  // to keep every face wound counter-clockwise when seen from outside.
+  function addCap(outer: Point[], capHoles: Point[][], z: number, facingUp: boolean): void {
+    const ring = [outer, ...capHoles].flat();
+    const holeStarts: number[] = [];
+    let start = outer.length;
+    for (const hole of capHoles) {
+      holeStarts.push(start);
+      start += hole.length;
     }
-    if (i1 < outerRect.length) {
-      p1 = outerRect[i1];
-    } else {
-      p1 = contourMm[i1 - outerRect.length];
+    const indices = earcut(ring.flatMap(p => [p.x, p.y]), holeStarts, 2);
+
+    // earcut can bridge straight past vertices that line up (common when hole
+    // corners line up in a bed array), but the walls still end there. Split
+    // any triangle with a vertex on its edge so the cap meets the walls exactly;
+    // that also makes the flat slivers earcut leaves along such runs redundant.
+    const byX = [...ring].sort((p, q) => p.x - q.x);
+
+    for (let i = 0; i < indices.length; i += 3) {
+      const corners = [ring[indices[i]], ring[indices[i + 1]], ring[indices[i + 2]]];
+      const longest = Math.max(...corners.map((a, k) => Math.hypot(corners[(k + 1) % 3].x - a.x, corners[(k + 1) % 3].y - a.y)));
+      if (2 * Math.abs(signedArea(corners)) / longest < ON_EDGE_MM) continue;
+      const boundary = corners.flatMap((a, k) => [a, ...pointsOnEdge(a, corners[(k + 1) % 3], byX)]);
+      const fan: Point[][] = [];
+      if (boundary.length === 3) {
+        fan.push(corners);
+      } else {
+        // Fan from the centroid so none of the pieces is a sliver
+        const c = { x: (corners[0].x + corners[1].x + corners[2].x) / 3, y: (corners[0].y + corners[1].y + corners[2].y) / 3 };
+        boundary.forEach((p, k) => fan.push([c, p, boundary[(k + 1) % boundary.length]]));
+      }
+      for (const [p0, p1, p2] of fan) {
+        const [a, b, c] = facingUp ? [p0, p1, p2] : [p0, p2, p1];
+        triangles.push({
+          v1: { x: a.x, y: a.y, z },
+          v2: { x: b.x, y: b.y, z },
+          v3: { x: c.x, y: c.y, z },
+          normal: { x: 0, y: 0, z: facingUp ? 1 : -1 }
+        });
+      }
     }
-    if (i2 < outerRect.length) {
-      p2 = outerRect[i2];
-    } else {
-      p2 = contourMm[i2 - outerRect.length];
+  }
+
+  const topZ = thickness;
+  // Blind pockets stop at floorZ; through-cuts (the default) go down to 0
+  const pocketDepth = config.pocketDepthMm ?? 0;
+  const isPocket = pocketDepth > 0 && pocketDepth < thickness;
+  const floorZ = isPocket ? thickness - pocketDepth : 0;
+
+  // 1. Bottom face (solid under pockets)
+  addCap(outerRect, isPocket ? [] : holes, 0, false);
+
+  // 2. Top face, open under the raised digits
+  addCap(outerRect, [...holes, ...digits], topZ, true);
+
+  // 2b. Pocket floors
+  if (isPocket) {
+    for (const hole of holes) addCap(hole, [], floorZ, true);
+  }
+
+
+  // 3. Side walls of outer boundary (any counter-clockwise ring, facing out)
+  function addOuterWalls(ring: Point[], z0: number, z1: number): void {
+    for (let i = 0; i < ring.length; i++) {
+      const j = (i + 1) % ring.length;
+      const p1 = ring[i];
+      const p2 = ring[j];
+      
+      const edge = { x: p2.x - p1.x, y: p2.y - p1.y, z: 0 };
+      const n = normalize({ x: edge.y, y: -edge.x, z: 0 });
+      
+      addQuad(
+        { x: p1.x, y: p1.y, z: z0 },
+        { x: p2.x, y: p2.y, z: z0 },
+        { x: p2.x, y: p2.y, z: z1 },
+        { x: p1.x, y: p1.y, z: z1 },
+        n
+      );
     }
-    
-    triangles.push({
-      v1: { x: p0.x, y: p0.y, z: topZ },
-      v2: { x: p2.x, y: p2.y, z: topZ },
-      v3: { x: p1.x, y: p1.y, z: topZ },
-      normal: { x: 0, y: 0, z: 1 }
-    });
   }
+  addOuterWalls(outerRect, 0, topZ);
   
-  // 3. Side walls of outer rectangle
-  for (let i = 0; i < outerRect.length; i++) {
-    const j = (i + 1) % outerRect.length;
-    const p1 = outerRect[i];
-    const p2 = outerRect[j];
-    
-    const edge = { x: p2.x - p1.x, y: p2.y - p1.y, z: 0 };
-    const n = normalize({ x: edge.y, y: -edge.x, z: 0 });
-    
-    addQuad(
-      { x: p1.x, y: p1.y, z: 0 },
-      { x: p2.x, y: p2.y, z: 0 },
-      { x: p2.x, y: p2.y, z: topZ },
-      { x: p1.x, y: p1.y, z: topZ },
-      n
-    );
+  // 4. Side walls of each cutout (floorZ to topZ)
+  for (const hole of holes) {
+    for (let i = 0; i < hole.length; i++) {
+      const j = (i + 1) % hole.length;
+      const p1 = hole[i];
+      const p2 = hole[j];
+      
+      const edge = { x: p2.x - p1.x, y: p2.y - p1.y, z: 0 };
+      const n = normalize({ x: -edge.y, y: edge.x, z: 0 });
+      
+      addQuad(
+        { x: p1.x, y: p1.y, z: floorZ },
+        { x: p1.x, y: p1.y, z: topZ },
+        { x: p2.x, y: p2.y, z: topZ },
+        { x: p2.x, y: p2.y, z: floorZ },
+        n
+      );
+    }
   }
   
-  // 4. Side walls of contour (through-cut, z=0 to z=topZ)
-  for (let i = 0; i < contourMm.length; i++) {
-    const j = (i + 1) % contourMm.length;
-    const p1 = contourMm[i];
-    const p2 = contourMm[j];
-    
-    const edge = { x: p2.x - p1.x, y: p2.y - p1.y, z: 0 };
-    const n = normalize({ x: -edge.y, y: edge.x, z: 0 });
-    
-    addQuad(
-      { x: p1.x, y: p1.y, z: 0 },
-      { x: p1.x, y: p1.y, z: topZ },
-      { x: p2.x, y: p2.y, z: topZ },
-      { x: p2.x, y: p2.y, z: 0 },
-      n
-    );
+  // 5. Raised slot numbers: walls up from the top face, then their own tops
+  for (const digit of digits) {
+    addOuterWalls(digit, topZ, topZ + DIGIT_RAISE_MM);
+    addCap(digit, [], topZ + DIGIT_RAISE_MM, true);
   }
   
+  return triangles;
+}
+
+export function generateSTL(
+  contours: Contour[],
+  contourBounds: { width: number; height: number },
+  config: JigConfig,
+  pixelsPerMm: number
+): ArrayBuffer {
+  const triangles = buildJigMesh(contours, config, pixelsPerMm);
+
   // Write binary STL
   const headerSize = 80;
   const triangleSize = 50;
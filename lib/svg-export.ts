@@ -1,39 +1,58 @@
 import type { Point, Contour, JigConfig } from './types';
+import { buildJigPlate, applyKerf, SLOT_DIGIT_MM, slotLabelWidthMm } from './jig-utils';
+import { fitPath } from './curve-fit';
+
+function xy(p: Point): string {
+  return `${p.x.toFixed(3)} ${p.y.toFixed(3)}`;
+}
+
+// Path data from lines, arcs and curves fitted within the tolerance (0 = plain polyline)
+function toPath(points: Point[], toleranceMm: number): string {
+  const { start, segments } = fitPath(points, toleranceMm);
+  const commands = segments.map(s => {
+    if (s.kind === 'line') return `L ${xy(s.to)}`;
+    if (s.kind === 'cubic') return `C ${xy(s.c1)} ${xy(s.c2)} ${xy(s.to)}`;
+    // Y runs down in both, so a positive sweep is SVG's positive-angle direction
+    const r = s.radius.toFixed(3);
+    return `A ${r} ${r} 0 ${Math.abs(s.sweep) > Math.PI ? 1 : 0} ${s.sweep > 0 ? 1 : 0} ${xy(s.to)}`;
+  });
+  // Z draws the closing line
+  if (segments[segments.length - 1]?.kind === 'line') commands.pop();
+  return [`M ${xy(start)}`, ...commands, 'Z'].join(' ');
+}
 
 export function generateSVG(
-  contour: Contour,
+  contours: Contour[],
   contourBounds: { width: number; height: number },
   config: JigConfig,
-  pixelsPerMm: number
+  pixelsPerMm: number,
+  kerfMm = 0,
+  curveToleranceMm = 0
 ): string {
-  const jigSize = config.jigSizeMm;
-  
-  // Square jig
-  const jigWidth = jigSize;
-  const jigHeight = jigSize;
+  const plate = applyKerf(buildJigPlate(contours, config, pixelsPerMm), kerfMm);
+  const jigWidth = plate.widthMm;
+  const jigHeight = plate.heightMm;
   
   // Center the jig
   const viewBoxX = -jigWidth / 2;
   const viewBoxY = -jigHeight / 2;
   
-  // Convert contour points to mm and center
-  const centerX = contour.points.reduce((sum, p) => sum + p.x, 0) / contour.points.length;
-  const centerY = contour.points.reduce((sum, p) => sum + p.y, 0) / contour.points.length;
+  // Cutouts are already in mm, centered on the jig
+  const cutoutPaths = plate.cutouts
+    .map(pts => `<path d="${toPath(pts, curveToleranceMm)}" class="cut-line"/>`)
+    .join('\n  ');
   
-  const contourPathMm = contour.points
-    .map((p, i) => {
-      const mmX = (p.x - centerX) / pixelsPerMm;
-      const mmY = (p.y - centerY) / pixelsPerMm;
-      return `${i === 0 ? 'M' : 'L'} ${mmX.toFixed(3)} ${mmY.toFixed(3)}`;
-    })
-    .join(' ') + ' Z';
+  // Slot numbers for bed arrays (engrave, not cut), squeezed into the width the layout left them
+  const slotLabels = plate.labels
+    .map(l => `<text x="${l.at.x.toFixed(2)}" y="${l.at.y.toFixed(2)}" textLength="${slotLabelWidthMm(l.text).toFixed(2)}" lengthAdjust="spacingAndGlyphs" class="slot-label">${l.text}</text>`)
+    .join('\n  ');
   
   // Crosshair size
   const crosshairSize = 5;
   const crosshairOffset = 2;
   
-  // Generate crosshairs for corners
-  const crosshairs = [
+  // Generate crosshairs for corners (rounded and circular jigs have none)
+  const crosshairs = !plate.hasCorners ? '' : [
     // Top-left
     `<line x1="${viewBoxX + crosshairOffset}" y1="${viewBoxY + crosshairOffset + crosshairSize}" x2="${viewBoxX + crosshairOffset}" y2="${viewBoxY + crosshairOffset}" stroke="#666" stroke-width="0.5"/>
      <line x1="${viewBoxX + crosshairOffset}" y1="${viewBoxY + crosshairOffset}" x2="${viewBoxX + crosshairOffset + crosshairSize}" y2="${viewBoxY + crosshairOffset}" stroke="#666" stroke-width="0.5"/>`,
@@ -55,7 +74,12 @@ export function generateSVG(
     <text x="${viewBoxX + 10}" y="${scaleBarY - 1}" font-size="2" text-anchor="middle" fill="#666">10mm</text>
   `;
   
+  const kerfNote = kerfMm > 0
+    ? `Kerf compensation ${kerfMm} mm: cutouts inset and border outset by ${kerfMm / 2} mm`
+    : 'No kerf compensation';
+
   const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- ${kerfNote} -->
 <svg xmlns="http://www.w3.org/2000/svg" 
      width="${jigWidth.toFixed(1)}mm" 
      height="${jigHeight.toFixed(1)}mm" 
@@ -65,18 +89,22 @@ export function generateSVG(
       .jig-border { fill: none; stroke: #333; stroke-width: 0.5; }
       .cut-line { fill: none; stroke: #06b6d4; stroke-width: 0.3; }
       .crosshair { stroke: #666; stroke-width: 0.3; }
+      .slot-label { fill: #f59e0b; font-family: monospace; font-size: ${SLOT_DIGIT_MM.height}px; }
     </style>
   </defs>
   
   <!-- Jig border -->
-  <rect x="${viewBoxX}" y="${viewBoxY}" width="${jigWidth}" height="${jigHeight}" class="jig-border"/>
+  <path d="${toPath(plate.outline, curveToleranceMm)}" class="jig-border"/>
   
-  <!-- Corner crosshairs -->
+  ${crosshairs ? `<!-- Corner crosshairs -->
   ${crosshairs}
-  
-  <!-- Object cutout -->
-  <path d="${contourPathMm}" class="cut-line"/>
-  
+  ` : ''}
+  <!-- Object cutouts -->
+  ${cutoutPaths}
+  ${slotLabels ? `
+  <!-- Slot numbers -->
+  ${slotLabels}
+  ` : ''}  
   <!-- Scale bar -->
   ${scaleBar}
 </svg>`;
@@ -0,0 +1,199 @@
+import type { Contour, JigConfig, ScaleCalibration } from './types';
+import { buildJigMesh, type Vec3 } from './stl-export';
+import { getJigSizeMm } from './jig-utils';
+
+export interface ThreeMFMetadata {
+  objectName: string;
+  calibrationMethod: ScaleCalibration['method'];
+}
+
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// ---- Minimal ZIP writer (stored, no compression) ----
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const files = entries.map(e => ({ ...e, nameBytes: encoder.encode(e.name), crc: crc32(e.data) }));
+  const localSize = files.reduce((sum, f) => sum + 30 + f.nameBytes.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.nameBytes.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+  for (const f of files) {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // version needed
+    view.setUint16(offset + 6, 0, true); // flags
+    view.setUint16(offset + 8, 0, true); // stored
+    view.setUint16(offset + 10, dosTime, true);
+    view.setUint16(offset + 12, dosDate, true);
+    view.setUint32(offset + 14, f.crc, true);
+    view.setUint32(offset + 18, f.data.length, true);
+    view.setUint32(offset + 22, f.data.length, true);
+    view.setUint16(offset + 26, f.nameBytes.length, true);
+    view.setUint16(offset + 28, 0, true);
+    out.set(f.nameBytes, offset + 30);
+    out.set(f.data, offset + 30 + f.nameBytes.length);
+    offset += 30 + f.nameBytes.length + f.data.length;
+  }
+
+  const centralStart = offset;
+  files.forEach((f, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    view.setUint16(offset + 6, 20, true); // version needed
+    view.setUint16(offset + 8, 0, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, dosTime, true);
+    view.setUint16(offset + 14, dosDate, true);
+    view.setUint32(offset + 16, f.crc, true);
+    view.setUint32(offset + 20, f.data.length, true);
+    view.setUint32(offset + 24, f.data.length, true);
+    view.setUint16(offset + 28, f.nameBytes.length, true);
+    view.setUint16(offset + 30, 0, true); // extra
+    view.setUint16(offset + 32, 0, true); // comment
+    view.setUint16(offset + 34, 0, true); // disk
+    view.setUint16(offset + 36, 0, true); // internal attrs
+    view.setUint32(offset + 38, 0, true); // external attrs
+    view.setUint32(offset + 42, localOffsets[i], true);
+    out.set(f.nameBytes, offset + 46);
+    offset += 46 + f.nameBytes.length;
+  });
+
+  // End of central directory
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return out;
+}
+
+// ---- 3MF model ----
+
+export function generate3MF(
+  contours: Contour[],
+  contourBounds: { width: number; height: number },
+  config: JigConfig,
+  pixelsPerMm: number,
+  metadata: ThreeMFMetadata
+): ArrayBuffer {
+  const triangles = buildJigMesh(contours, config, pixelsPerMm);
+
+  // 3MF wants an indexed mesh: merge identical vertices
+  const vertexIndex = new Map<string, number>();
+  const vertices: Vec3[] = [];
+  const indexOf = (v: Vec3): number => {
+    const key = `${v.x.toFixed(5)},${v.y.toFixed(5)},${v.z.toFixed(5)}`;
+    let idx = vertexIndex.get(key);
+    if (idx === undefined) {
+      idx = vertices.length;
+      vertexIndex.set(key, idx);
+      vertices.push(v);
+    }
+    return idx;
+  };
+  const faces = triangles.map(t => [indexOf(t.v1), indexOf(t.v2), indexOf(t.v3)]);
+
+  const name = escapeXml(metadata.objectName || 'JigSnap jig');
+  const size = getJigSizeMm(config);
+  const meta: [string, string][] = [
+    ['Title', name],
+    ['Application', 'JigSnap'],
+    ['CreationDate', new Date().toISOString().split('T')[0]],
+    ['jigsnap:JigSizeMm', `${size.width} x ${size.height}`],
+    ['jigsnap:CutoutCount', String(contours.length)],
+    ['jigsnap:ExtrudeHeightMm', String(config.extrudeHeightMm)],
+    ['jigsnap:PocketDepthMm', config.pocketDepthMm ? String(config.pocketDepthMm) : 'through'],
+    ['jigsnap:CalibrationMethod', metadata.calibrationMethod],
+    ['jigsnap:PixelsPerMm', pixelsPerMm.toFixed(4)],
+  ];
+
+  const model = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US"
+       xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02"
+       xmlns:jigsnap="http://jigsnap.app/3mf/metadata">
+${meta.map(([k, v]) => `  <metadata name="${k}">${v}</metadata>`).join('\n')}
+  <resources>
+    <object id="1" name="${name}" type="model">
+      <mesh>
+        <vertices>
+${vertices.map(v => `          <vertex x="${v.x.toFixed(4)}" y="${v.y.toFixed(4)}" z="${v.z.toFixed(4)}"/>`).join('\n')}
+        </vertices>
+        <triangles>
+${faces.map(([a, b, c]) => `          <triangle v1="${a}" v2="${b}" v3="${c}"/>`).join('\n')}
+        </triangles>
+      </mesh>
+    </object>
+  </resources>
+  <build>
+    <item objectid="1"/>
+  </build>
+</model>`;
+
+  const encoder = new TextEncoder();
+  const zip = createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES) },
+    { name: '_rels/.rels', data: encoder.encode(RELS) },
+    { name: '3D/3dmodel.model', data: encoder.encode(model) },
+  ]);
+  return zip.buffer as ArrayBuffer;
+}
+
+export function download3MF(buffer: ArrayBuffer, filename: string): void {
+  const blob = new Blob([buffer], { type: 'model/3mf' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -6,18 +6,78 @@ export interface Point {
 export interface Contour {
   points: Point[];
   area: number;
+  notches?: Point[]; // clicked finger-notch positions on the outline
 }
 
+export type ContourIssueKind = 'self-intersection' | 'duplicate-vertex' | 'zero-length-edge';
+
+export interface ContourIssue {
+  kind: ContourIssueKind;
+  at: Point; // where to highlight it, in the contour's coordinates
+}
+
+export type ContourMethod = 'canny' | 'adaptive' | 'binary' | 'color' | 'watershed'; // watershed: cut out from clicks
+
 export interface ContourCandidate {
   points: Point[];
   area: number;
   isPaper: boolean;
-  detectionMethod: 'canny' | 'adaptive' | 'binary';
+  detectionMethod: ContourMethod;
+  lightingCorrected: boolean; // found on the lighting-corrected image
+  confidence: number; // 0–1: edge strength, agreement between methods, solidity, clearance from the paper's edge
 }
 
+export type JigShape = 'square' | 'rectangle' | 'rounded' | 'circle';
+
 export interface JigConfig {
   extrudeHeightMm: number;
-  jigSizeMm: number; // square jig side length
+  pocketDepthMm?: number; // blind pocket with a floor; unset = through-cut
+  jigSizeMm: number; // square jig side length (circle: diameter)
+  jigWidthMm: number; // rectangle / rounded rectangle width
+  jigHeightMm: number; // rectangle / rounded rectangle height
+  outerShape: JigShape;
+  cornerRadiusMm: number; // rounded rectangle only
+  minWebMm: number; // minimum material left between cutouts
+  bedArray?: BedArrayConfig; // pack copies onto a bed-sized plate instead
+  fingerNotches?: FingerNotchConfig; // semicircular notches for lifting the part out
+}
+
+export interface FingerNotchConfig {
+  radiusMm: number;
+  autoCount: number; // notches placed automatically on contours without clicked ones
+}
+
+export interface BedArrayConfig {
+  bedWidthMm: number;
+  bedHeightMm: number;
+  spacingMm: number; // minimum material between copies
+  allowRotation: boolean; // try the copies turned 90° if more fit
+}
+
+export type ExportFormat = 'svg' | 'dxf' | 'stl' | '3mf';
+
+export interface MachineProfile {
+  id: string;
+  name: string; // e.g. "3 mm birch on 40 W diode"
+  thicknessMm: number; // sheet thickness / extrude height
+  clearanceMm: number; // outline offset applied in the Detect step
+  kerfMm: number;
+  bedWidthMm: number;
+  bedHeightMm: number;
+  exportFormat: ExportFormat;
+}
+
+// What a profile sets, shared by every step
+export type MachineSettings = Omit<MachineProfile, 'id' | 'name'>;
+
+// Radial lens distortion of one phone camera, fitted from checkerboard photos.
+// Distances are from the image centre in units of its longer side.
+export interface CameraProfile {
+  id: string;
+  name: string; // e.g. "Pixel 8 main camera"
+  k1: number;
+  k2: number;
+  aspect: number; // longer side / shorter side of the photos it was fitted on
 }
 
 export interface ScaleCalibration {
@@ -46,11 +106,40 @@ export interface A4Paper {
   height: number;
 }
 
+// Detection settings, one block per method; disabled methods are skipped
 export interface ProcessingParams {
-  blurKernel: number;
-  cannyLow: number;
-  cannyHigh: number;
-  epsilon: number;
+  canny: { enabled: boolean; blurKernel: number; low: number; high: number };
+  adaptive: { enabled: boolean; bilateralDiameter: number; blockSize: number; c: number };
+  binary: { enabled: boolean; blurKernel: number }; // Otsu picks the threshold
+  // Pixels whose colour is further than `threshold` from the paper's (ΔE in Lab, or 0–100 in HSV)
+  color: { enabled: boolean; space: 'lab' | 'hsv'; threshold: number; blurKernel: number };
+  // Run before every method: divide out a heavily blurred background (lamp gradients), then
+  // optionally whiten neutral pixels at least `shadowLevel` (0–1) bright, i.e. soft shadows on the paper
+  lighting: { enabled: boolean; backgroundScale: number; suppressShadows: boolean; shadowLevel: number };
+  // Snap each outline vertex to the strongest edge within `searchRadius` (detection pixels)
+  // along its normal, located to a fraction of a pixel in the full-resolution photo
+  subpixel: { enabled: boolean; searchRadius: number };
+  epsilon: number; // outline simplification, as a fraction of the perimeter
+}
+
+// How outlines from several photos are combined: mean position, or outermost for clearance
+export type FusionMode = 'average' | 'union';
+
+// Outline smoothing applied to the detected trace before simplification
+export type SmoothingMethod = 'none' | 'chaikin' | 'gaussian' | 'savitzky-golay';
+
+export interface SmoothingOptions {
+  method: SmoothingMethod;
+  iterations: number; // Chaikin corner-cutting passes
+  windowMm: number; // Gaussian sigma, or Savitzky–Golay half-window, along the outline
+  resampleMm: number; // even point spacing for the final outline; 0 = leave as is
+}
+
+// One drag of the mask brush, in image pixels
+export interface BrushStroke {
+  points: Point[];
+  radius: number;
+  erase: boolean; // paint background instead of object
 }
 
 // State for draggable paper corners